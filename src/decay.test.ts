@@ -0,0 +1,169 @@
+import {
+  applyInactivityDecay,
+  applyMatchResult,
+  applySeasonReset,
+  calculateDuel,
+  DecayModel,
+  RoundingMode,
+  type TimestampedPlayer,
+} from "./index";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const table: TimestampedPlayer[] = [
+  { id: "active", rating: 1800, lastPlayedAt: 10 * DAY },
+  { id: "idle", rating: 1800, lastPlayedAt: 0 },
+  { id: "low", rating: 1000, lastPlayedAt: 0 },
+];
+
+describe("applyInactivityDecay", () => {
+  test("should move idle ratings toward the mean once per idle period", () => {
+    const decayed = applyInactivityDecay(table, 10 * DAY, {
+      period: 7 * DAY,
+      amount: 0.5,
+      mean: 1500,
+    });
+
+    expect(decayed.map((player) => player.rating)).toEqual([1800, 1650, 1250]);
+    expect(decayed[0]).toBe(table[0]);
+    expect(decayed[1].lastDecayedAt).toBe(10 * DAY);
+  });
+
+  test("should default the mean to the table average", () => {
+    const decayed = applyInactivityDecay(table, 7 * DAY, {
+      period: 7 * DAY,
+      amount: 1,
+    });
+
+    expect(decayed.map((player) => player.rating)).toEqual([1800, 1533, 1533]);
+  });
+
+  test("should remove a fixed amount per idle period down to the floor", () => {
+    const decayed = applyInactivityDecay(table, 21 * DAY, {
+      model: DecayModel.FIXED_AMOUNT,
+      period: 7 * DAY,
+      amount: 25,
+      floor: 1000,
+    });
+
+    expect(decayed.map((player) => player.rating)).toEqual([1775, 1725, 1000]);
+  });
+
+  test("should wait for the grace period", () => {
+    const options = {
+      model: DecayModel.FIXED_AMOUNT,
+      period: 7 * DAY,
+      gracePeriod: 14 * DAY,
+      amount: 25,
+    };
+
+    expect(applyInactivityDecay(table, 20 * DAY, options)[1].rating).toBe(1800);
+    expect(applyInactivityDecay(table, 21 * DAY, options)[1].rating).toBe(1775);
+  });
+
+  test("should not decay the same idle period twice", () => {
+    const options = {
+      model: DecayModel.FIXED_AMOUNT,
+      period: 7 * DAY,
+      amount: 25,
+    };
+
+    const daily = Array.from({ length: 21 }, (_, day) => day + 1).reduce(
+      (players, day) => applyInactivityDecay(players, day * DAY, options),
+      table,
+    );
+    const once = applyInactivityDecay(table, 21 * DAY, options);
+
+    expect(daily.map((player) => player.rating)).toEqual(
+      once.map((player) => player.rating),
+    );
+  });
+
+  test("should keep fractional ratings with RoundingMode.NONE", () => {
+    const [decayed] = applyInactivityDecay(
+      [{ id: "idle", rating: 1501, lastPlayedAt: 0 }],
+      DAY,
+      { period: DAY, amount: 0.25, mean: 1500, rounding: RoundingMode.NONE },
+    );
+
+    expect(decayed.rating).toBe(1500.75);
+  });
+
+  test("should throw an error for an invalid period or amount", () => {
+    expect(() =>
+      applyInactivityDecay(table, DAY, { period: 0, amount: 0.1 }),
+    ).toThrow("Decay period must be positive");
+    expect(() =>
+      applyInactivityDecay(table, DAY, { period: DAY, amount: 2 }),
+    ).toThrow("Decay amount must be between 0 and 1");
+  });
+});
+
+describe("applySeasonReset", () => {
+  test("should compress ratings toward the baseline", () => {
+    const reset = applySeasonReset(
+      [
+        { id: "a", rating: 2000, gamesPlayed: 40 },
+        { id: "b", rating: 1000, gamesPlayed: 40 },
+      ],
+      { factor: 0.5, baseline: 1200, resetGamesPlayed: true },
+    );
+
+    expect(reset).toEqual([
+      { id: "a", rating: 1600, gamesPlayed: 0 },
+      { id: "b", rating: 1100, gamesPlayed: 0 },
+    ]);
+  });
+
+  test("should keep the table average by default", () => {
+    const reset = applySeasonReset(table, { factor: 0.25 });
+
+    expect(reset.map((player) => player.rating)).toEqual([1600, 1600, 1400]);
+    expect(reset[0].lastPlayedAt).toBe(table[0].lastPlayedAt);
+  });
+
+  test("should throw an error for a factor outside 0 to 1", () => {
+    expect(() => applySeasonReset(table, { factor: 1.5 })).toThrow(
+      "Season reset factor must be between 0 and 1",
+    );
+  });
+});
+
+describe("applyMatchResult", () => {
+  test("should apply new ratings and restart the idle clock", () => {
+    const decayed = applyInactivityDecay(table, 14 * DAY, {
+      period: 7 * DAY,
+      amount: 0.1,
+      mean: 1500,
+    });
+    const result = calculateDuel(decayed[1], decayed[2]);
+
+    const updated = applyMatchResult(decayed, result, 14 * DAY);
+
+    expect(updated[1]).toEqual({
+      id: "idle",
+      rating: result[0].newRating,
+      lastPlayedAt: 14 * DAY,
+      gamesPlayed: undefined,
+      peakRating: undefined,
+    });
+    expect(updated[0]).toBe(decayed[0]);
+    expect(
+      applyInactivityDecay(updated, 20 * DAY, {
+        period: 7 * DAY,
+        amount: 0.1,
+      })[1],
+    ).toBe(updated[1]);
+  });
+
+  test("should throw an error for a player missing from the table", () => {
+    const result = calculateDuel(
+      { id: "active", rating: 1800 },
+      { id: "new", rating: 1200 },
+    );
+
+    expect(() => applyMatchResult(table, result, DAY)).toThrow(
+      "Player with id new not found",
+    );
+  });
+});
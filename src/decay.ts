@@ -0,0 +1,185 @@
+import { type MatchResult, type Player, RoundingMode } from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+
+export enum DecayModel {
+  /** Moves the rating a share of the way to `mean` each idle period */
+  TOWARD_MEAN = "TOWARD_MEAN",
+  /** Removes a fixed number of rating points each idle period */
+  FIXED_AMOUNT = "FIXED_AMOUNT",
+}
+
+export interface TimestampedPlayer extends Player {
+  /** Time of the last rated game in milliseconds */
+  lastPlayedAt: number;
+  /** Set by `applyInactivityDecay` so idle periods are only decayed once */
+  lastDecayedAt?: number;
+}
+
+export interface DecayOptions {
+  /** default: TOWARD_MEAN */
+  model?: DecayModel;
+  /** Length of one idle period in milliseconds */
+  period: number;
+  /** Share of the distance to `mean` (TOWARD_MEAN) or rating points (FIXED_AMOUNT) removed per idle period */
+  amount: number;
+  /** Inactivity in milliseconds before the first idle period starts, default: 0 */
+  gracePeriod?: number;
+  /** TOWARD_MEAN target, default: average rating of the table */
+  mean?: number;
+  /** FIXED_AMOUNT never decays a rating below this, default: no floor */
+  floor?: number;
+  /** default: ROUND */
+  rounding?: RoundingMode;
+}
+
+export interface SeasonResetOptions {
+  /** Share of the distance from `baseline` each rating keeps, e.g. 0.5 halves it */
+  factor: number;
+  /** default: average rating of the table */
+  baseline?: number;
+  /** Restart `gamesPlayed` at 0 so K-factor and provisional policies apply again, default: false */
+  resetGamesPlayed?: boolean;
+  /** default: ROUND */
+  rounding?: RoundingMode;
+}
+
+const getAverageRating = (players: Player[]): number =>
+  players.reduce((sum, player) => sum + player.rating, 0) /
+  Math.max(players.length, 1);
+
+const roundRating = (rating: number, rounding?: RoundingMode): number =>
+  rounding === RoundingMode.NONE ? rating : Math.round(rating);
+
+const countIdlePeriods = (
+  since: number,
+  until: number,
+  options: DecayOptions,
+): number =>
+  Math.max(
+    Math.floor((until - since - (options.gracePeriod ?? 0)) / options.period),
+    0,
+  );
+
+/**
+ * Decays the rating of every player idle past the grace period, once per
+ * complete idle period since `lastPlayedAt`. Periods already decayed by an
+ * earlier call are skipped, so the table can be decayed on any schedule.
+ */
+export const applyInactivityDecay = <T extends TimestampedPlayer>(
+  players: T[],
+  now: number,
+  options: DecayOptions,
+): T[] => {
+  if (!(options.period > 0)) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Decay period must be positive",
+    );
+  }
+  const model = options.model ?? DecayModel.TOWARD_MEAN;
+  if (
+    model === DecayModel.TOWARD_MEAN &&
+    (options.amount < 0 || options.amount > 1)
+  ) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Decay amount must be between 0 and 1",
+    );
+  }
+  const mean = options.mean ?? getAverageRating(players);
+
+  return players.map((player) => {
+    const periods =
+      countIdlePeriods(player.lastPlayedAt, now, options) -
+      countIdlePeriods(
+        player.lastPlayedAt,
+        player.lastDecayedAt ?? player.lastPlayedAt,
+        options,
+      );
+    if (periods <= 0) {
+      return player;
+    }
+
+    let rating: number;
+    if (model === DecayModel.FIXED_AMOUNT) {
+      const floor = Math.min(options.floor ?? -Infinity, player.rating);
+      rating = Math.max(player.rating - options.amount * periods, floor);
+    } else {
+      rating =
+        mean + (player.rating - mean) * Math.pow(1 - options.amount, periods);
+    }
+    return {
+      ...player,
+      rating: roundRating(rating, options.rounding),
+      lastDecayedAt: now,
+    };
+  });
+};
+
+/** Compresses every rating toward a baseline at the start of a new season */
+export const applySeasonReset = <T extends Player>(
+  players: T[],
+  options: SeasonResetOptions,
+): T[] => {
+  if (options.factor < 0 || options.factor > 1) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Season reset factor must be between 0 and 1",
+    );
+  }
+  const baseline = options.baseline ?? getAverageRating(players);
+
+  return players.map((player) => {
+    const reset: T = {
+      ...player,
+      rating: roundRating(
+        baseline + (player.rating - baseline) * options.factor,
+        options.rounding,
+      ),
+    };
+    if (options.resetGamesPlayed) {
+      reset.gamesPlayed = 0;
+    }
+    return reset;
+  });
+};
+
+/**
+ * Applies the results of a `calculate*` call to the table and marks every
+ * player in it as active at `playedAt`.
+ */
+export const applyMatchResult = <T extends TimestampedPlayer>(
+  players: T[],
+  result: MatchResult,
+  playedAt: number,
+): T[] => {
+  const resultsById = new Map(result.map((item) => [item.id, item]));
+  for (const item of result) {
+    if (!players.some((player) => player.id === item.id)) {
+      throw new EloNotFoundError(
+        EloErrorCode.PLAYER_NOT_FOUND,
+        `Player with id ${item.id} not found`,
+      );
+    }
+  }
+
+  return players.map((player) => {
+    const item = resultsById.get(player.id);
+    if (!item) {
+      return player;
+    }
+    const updated: T = {
+      ...player,
+      rating: item.newRating,
+      lastPlayedAt: playedAt,
+      gamesPlayed:
+        player.gamesPlayed === undefined ? undefined : player.gamesPlayed + 1,
+      peakRating:
+        player.peakRating === undefined
+          ? undefined
+          : Math.max(player.peakRating, item.newRating),
+    };
+    delete updated.lastDecayedAt;
+    return updated;
+  });
+};
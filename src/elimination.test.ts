@@ -0,0 +1,162 @@
+import {
+  BracketMatchStatus,
+  BracketSide,
+  calculateDuel,
+  createEliminationBracket,
+  EliminationFormat,
+  type EliminationBracket,
+  type Player,
+} from "./index";
+
+const createPlayers = (count: number): Player[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `p${i + 1}`,
+    rating: 2000 - i * 50,
+  }));
+
+/** Plays every ready match until a champion is decided */
+const playOut = (
+  bracket: EliminationBracket,
+  pickWinner: (playerIds: string[]) => string,
+): number => {
+  let played = 0;
+  let ready = bracket.getReadyMatches();
+  while (ready.length > 0) {
+    for (const match of ready) {
+      bracket.recordResult(match.id, pickWinner(match.playerIds as string[]));
+      played++;
+    }
+    ready = bracket.getReadyMatches();
+  }
+  return played;
+};
+
+const higherSeed = (playerIds: string[]) =>
+  [...playerIds].sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)))[0];
+
+describe("createEliminationBracket", () => {
+  test("should use standard seeding", () => {
+    const bracket = createEliminationBracket(createPlayers(8));
+
+    expect(bracket.getReadyMatches().map((match) => match.playerIds)).toEqual([
+      ["p1", "p8"],
+      ["p4", "p5"],
+      ["p2", "p7"],
+      ["p3", "p6"],
+    ]);
+  });
+
+  test("should give byes to the top seeds", () => {
+    const bracket = createEliminationBracket(createPlayers(6));
+
+    const firstRound = bracket
+      .getMatches()
+      .filter(
+        (match) => match.side === BracketSide.WINNERS && match.round === 1,
+      );
+    expect(firstRound.map((match) => match.status)).toEqual([
+      BracketMatchStatus.SKIPPED,
+      BracketMatchStatus.READY,
+      BracketMatchStatus.SKIPPED,
+      BracketMatchStatus.READY,
+    ]);
+    expect(firstRound[0]).toMatchObject({
+      playerIds: ["p1", null],
+      winnerId: "p1",
+    });
+  });
+
+  test("should advance winners to a champion", () => {
+    const bracket = createEliminationBracket(createPlayers(8));
+
+    expect(playOut(bracket, higherSeed)).toBe(7);
+    expect(bracket.getChampionId()).toBe("p1");
+  });
+
+  test("should update ratings with calculateDuel", () => {
+    const players = createPlayers(2);
+    const bracket = createEliminationBracket(players, { kFactor: 32 });
+
+    bracket.recordResult("winners-1-1", "p2");
+
+    const [winner, loser] = calculateDuel(players[1], players[0], {
+      kFactor: 32,
+    });
+    expect(bracket.getPlayers()).toEqual([
+      { id: "p1", rating: loser.newRating },
+      { id: "p2", rating: winner.newRating },
+    ]);
+  });
+
+  test("should reject results for matches that are not ready", () => {
+    const bracket = createEliminationBracket(createPlayers(4));
+
+    expect(() => bracket.recordResult("winners-2-1", "p1")).toThrow(
+      "Match with id winners-2-1 is not ready",
+    );
+    expect(() => bracket.recordResult("winners-1-1", "p2")).toThrow(
+      "Player with id p2 is not in match winners-1-1",
+    );
+    expect(() => bracket.recordResult("unknown", "p1")).toThrow(
+      "Match with id unknown not found",
+    );
+  });
+
+  test("should throw error for fewer than two players", () => {
+    expect(() => createEliminationBracket(createPlayers(1))).toThrow(
+      "At least 2 players are required",
+    );
+  });
+});
+
+describe("double elimination", () => {
+  test("should give every player two losses except the champion", () => {
+    const bracket = createEliminationBracket(createPlayers(8), {
+      format: EliminationFormat.DOUBLE,
+    });
+
+    // 14 matches: 7 in the winners bracket, 6 in the losers bracket and the grand final
+    expect(playOut(bracket, higherSeed)).toBe(14);
+    expect(bracket.getChampionId()).toBe("p1");
+    expect(
+      bracket.getMatches().find((match) => match.id === "grand-final-2")
+        ?.status,
+    ).toBe(BracketMatchStatus.SKIPPED);
+  });
+
+  test("should reset the grand final when the losers bracket champion wins", () => {
+    const bracket = createEliminationBracket(createPlayers(4), {
+      format: EliminationFormat.DOUBLE,
+    });
+    let finalsPlayed = 0;
+    const pickWinner = (playerIds: string[]) => {
+      if (!playerIds.includes("p1") || !playerIds.includes("p2")) {
+        return higherSeed(playerIds);
+      }
+      finalsPlayed++;
+      return finalsPlayed === 1 ? "p1" : "p2";
+    };
+
+    // p1 beats p2 in the winners final, p2 wins the grand final and its reset
+    expect(playOut(bracket, pickWinner)).toBe(7);
+    expect(finalsPlayed).toBe(3);
+    expect(bracket.getChampionId()).toBe("p2");
+  });
+
+  test("should drop losers into the losers bracket with byes", () => {
+    const bracket = createEliminationBracket(createPlayers(5), {
+      format: EliminationFormat.DOUBLE,
+    });
+
+    expect(playOut(bracket, higherSeed)).toBe(8);
+    expect(bracket.getChampionId()).toBe("p1");
+    const losersMatches = bracket
+      .getMatches()
+      .filter((match) => match.side === BracketSide.LOSERS);
+    expect(
+      losersMatches.filter(
+        (match) => match.status === BracketMatchStatus.COMPLETED,
+      ),
+    ).toHaveLength(3);
+  });
+});
@@ -0,0 +1,367 @@
+import { calculateDuel, type Options, type Player } from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+
+export enum EliminationFormat {
+  SINGLE = "SINGLE",
+  DOUBLE = "DOUBLE",
+}
+
+export enum BracketSide {
+  WINNERS = "WINNERS",
+  LOSERS = "LOSERS",
+  GRAND_FINAL = "GRAND_FINAL",
+}
+
+export enum BracketMatchStatus {
+  /** At least one player is still to be decided */
+  WAITING = "WAITING",
+  READY = "READY",
+  COMPLETED = "COMPLETED",
+  /** Decided without being played: a bye, or an unneeded grand final reset */
+  SKIPPED = "SKIPPED",
+}
+
+export interface BracketMatch {
+  id: string;
+  side: BracketSide;
+  round: number;
+  /** `null` while undecided or for a bye */
+  playerIds: [string | null, string | null];
+  status: BracketMatchStatus;
+  winnerId?: string;
+}
+
+export interface EliminationOptions extends Options {
+  /** default: SINGLE */
+  format?: EliminationFormat;
+  /** Replay the grand final when the losers bracket champion wins it, default: true */
+  grandFinalReset?: boolean;
+}
+
+export interface EliminationBracket {
+  getMatches(): BracketMatch[];
+  getReadyMatches(): BracketMatch[];
+  /** Records the winner, updates both ratings with `calculateDuel` and advances the bracket */
+  recordResult(matchId: string, winnerId: string): void;
+  /** Current ratings, in seed order */
+  getPlayers(): Player[];
+  getChampionId(): string | undefined;
+}
+
+type SlotSource =
+  | { playerId: string | null }
+  | { winnerOf: string }
+  | { loserOf: string };
+
+interface MatchNode {
+  id: string;
+  side: BracketSide;
+  round: number;
+  sources: [SlotSource, SlotSource];
+  /** `undefined` until decided, `null` when both slots were byes */
+  winnerId?: string | null;
+  loserId?: string | null;
+  played: boolean;
+}
+
+/** Standard seeding order: 1 v 8, 4 v 5, 2 v 7, 3 v 6 for eight players, so top seeds meet as late as possible */
+const getSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const nextSize = order.length * 2;
+    order = order.flatMap((seed) => [seed, nextSize + 1 - seed]);
+  }
+  return order;
+};
+
+const createMatch = (
+  id: string,
+  side: BracketSide,
+  round: number,
+  sources: [SlotSource, SlotSource],
+): MatchNode => ({ id, side, round, sources, played: false });
+
+const buildWinnersBracket = (
+  seededIds: string[],
+  roundCount: number,
+): MatchNode[][] => {
+  const seedOrder = getSeedOrder(Math.pow(2, roundCount));
+  const rounds: MatchNode[][] = [];
+
+  for (let round = 1; round <= roundCount; round++) {
+    const matchCount = Math.pow(2, roundCount - round);
+    rounds.push(
+      Array.from({ length: matchCount }, (_, i) => {
+        const sources: [SlotSource, SlotSource] =
+          round === 1
+            ? [
+                { playerId: seededIds[seedOrder[2 * i] - 1] ?? null },
+                { playerId: seededIds[seedOrder[2 * i + 1] - 1] ?? null },
+              ]
+            : [
+                { winnerOf: rounds[round - 2][2 * i].id },
+                { winnerOf: rounds[round - 2][2 * i + 1].id },
+              ];
+        return createMatch(
+          `winners-${round}-${i + 1}`,
+          BracketSide.WINNERS,
+          round,
+          sources,
+        );
+      }),
+    );
+  }
+  return rounds;
+};
+
+/**
+ * Losers bracket for 2^k players in 2(k - 1) rounds: odd rounds pair the
+ * survivors among themselves (round 1 pairs the first-round losers), even
+ * rounds meet the losers dropping from the next winners round. Dropped losers
+ * are fed in reverse on alternate rounds to delay rematches.
+ */
+const buildLosersBracket = (winnersRounds: MatchNode[][]): MatchNode[][] => {
+  const rounds: MatchNode[][] = [];
+  const pairUp = (round: number, sources: SlotSource[]): MatchNode[] =>
+    Array.from({ length: sources.length / 2 }, (_, i) =>
+      createMatch(`losers-${round}-${i + 1}`, BracketSide.LOSERS, round, [
+        sources[2 * i],
+        sources[2 * i + 1],
+      ]),
+    );
+
+  rounds.push(
+    pairUp(
+      1,
+      winnersRounds[0].map((match) => ({ loserOf: match.id })),
+    ),
+  );
+  for (
+    let winnersRound = 2;
+    winnersRound <= winnersRounds.length;
+    winnersRound++
+  ) {
+    const survivors = rounds[rounds.length - 1];
+    const dropped = winnersRounds[winnersRound - 1].map((match) => ({
+      loserOf: match.id,
+    }));
+    if (winnersRound % 2 === 0) {
+      dropped.reverse();
+    }
+    const dropRound = rounds.length + 1;
+    rounds.push(
+      survivors.map((survivor, i) =>
+        createMatch(
+          `losers-${dropRound}-${i + 1}`,
+          BracketSide.LOSERS,
+          dropRound,
+          [{ winnerOf: survivor.id }, dropped[i]],
+        ),
+      ),
+    );
+    const latest = rounds[rounds.length - 1];
+    if (latest.length > 1) {
+      rounds.push(
+        pairUp(
+          rounds.length + 1,
+          latest.map((match) => ({ winnerOf: match.id })),
+        ),
+      );
+    }
+  }
+  return rounds;
+};
+
+/**
+ * Seeds players by rating into a single or double elimination bracket,
+ * padded with byes to a power of two. Results advance winners (and in double
+ * elimination, drop losers) until a champion is decided.
+ */
+export const createEliminationBracket = (
+  players: Player[],
+  options: EliminationOptions = {},
+): EliminationBracket => {
+  if (players.length < 2) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_PLAYERS,
+      "At least 2 players are required",
+    );
+  }
+
+  const seeded = [...players].sort((a, b) => b.rating - a.rating);
+  const ratings = new Map(seeded.map((player) => [player.id, player]));
+  const roundCount = Math.ceil(Math.log2(seeded.length));
+  const winnersRounds = buildWinnersBracket(
+    seeded.map((player) => player.id),
+    roundCount,
+  );
+  const matches: MatchNode[] = winnersRounds.flat();
+
+  if (options.format === EliminationFormat.DOUBLE) {
+    const losersRounds =
+      roundCount > 1 ? buildLosersBracket(winnersRounds) : [];
+    const winnersFinal = winnersRounds[roundCount - 1][0];
+    const losersFinal = losersRounds[losersRounds.length - 1]?.[0];
+    const grandFinal = createMatch(
+      "grand-final-1",
+      BracketSide.GRAND_FINAL,
+      1,
+      [
+        { winnerOf: winnersFinal.id },
+        losersFinal
+          ? { winnerOf: losersFinal.id }
+          : { loserOf: winnersFinal.id },
+      ],
+    );
+    matches.push(...losersRounds.flat(), grandFinal);
+    if (options.grandFinalReset ?? true) {
+      matches.push(
+        createMatch("grand-final-2", BracketSide.GRAND_FINAL, 2, [
+          { winnerOf: grandFinal.id },
+          { loserOf: grandFinal.id },
+        ]),
+      );
+    }
+  }
+
+  const matchesById = new Map(matches.map((match) => [match.id, match]));
+  const getMatch = (matchId: string): MatchNode => {
+    const match = matchesById.get(matchId);
+    if (!match) {
+      throw new EloNotFoundError(
+        EloErrorCode.MATCH_NOT_FOUND,
+        `Match with id ${matchId} not found`,
+      );
+    }
+    return match;
+  };
+
+  const getPlayer = (playerId: string): Player => {
+    const player = ratings.get(playerId);
+    if (!player) {
+      throw new EloNotFoundError(
+        EloErrorCode.PLAYER_NOT_FOUND,
+        `Player with id ${playerId} not found`,
+      );
+    }
+    return player;
+  };
+
+  /** `undefined` while the source match is undecided */
+  const resolveSource = (source: SlotSource): string | null | undefined => {
+    if ("playerId" in source) return source.playerId;
+    if ("winnerOf" in source) return getMatch(source.winnerOf).winnerId;
+    return getMatch(source.loserOf).loserId;
+  };
+
+  const getPlayerIds = (match: MatchNode): [string | null, string | null] => [
+    resolveSource(match.sources[0]) ?? null,
+    resolveSource(match.sources[1]) ?? null,
+  ];
+
+  const isReady = (match: MatchNode): boolean =>
+    match.winnerId === undefined &&
+    match.sources.every((source) => typeof resolveSource(source) === "string");
+
+  /** Matches are stored in dependency order, so a single pass settles every bye */
+  const advanceByes = (): void => {
+    for (const match of matches) {
+      if (match.winnerId !== undefined) continue;
+      const [first, second] = match.sources.map(resolveSource);
+      if (first === undefined || second === undefined) continue;
+      if (first === null || second === null) {
+        match.winnerId = first ?? second;
+        match.loserId = null;
+      }
+    }
+  };
+
+  const skipUnneededReset = (grandFinal: MatchNode): void => {
+    const reset = matchesById.get("grand-final-2");
+    if (reset && grandFinal.id === "grand-final-1") {
+      const [winnersChampion] = getPlayerIds(grandFinal);
+      if (grandFinal.winnerId === winnersChampion) {
+        reset.winnerId = grandFinal.winnerId;
+        reset.loserId = null;
+      }
+    }
+  };
+
+  const toBracketMatch = (match: MatchNode): BracketMatch => {
+    let status: BracketMatchStatus;
+    if (match.played) {
+      status = BracketMatchStatus.COMPLETED;
+    } else if (match.winnerId !== undefined) {
+      status = BracketMatchStatus.SKIPPED;
+    } else if (isReady(match)) {
+      status = BracketMatchStatus.READY;
+    } else {
+      status = BracketMatchStatus.WAITING;
+    }
+    const result: BracketMatch = {
+      id: match.id,
+      side: match.side,
+      round: match.round,
+      playerIds: getPlayerIds(match),
+      status,
+    };
+    if (typeof match.winnerId === "string") {
+      result.winnerId = match.winnerId;
+    }
+    return result;
+  };
+
+  advanceByes();
+
+  return {
+    getMatches() {
+      return matches.map(toBracketMatch);
+    },
+    getReadyMatches() {
+      return matches.filter(isReady).map(toBracketMatch);
+    },
+    recordResult(matchId, winnerId) {
+      const match = getMatch(matchId);
+      if (!isReady(match)) {
+        throw new EloValidationError(
+          EloErrorCode.MATCH_NOT_READY,
+          `Match with id ${matchId} is not ready`,
+        );
+      }
+      const playerIds = getPlayerIds(match);
+      const loserId = playerIds.find((id) => id !== winnerId);
+      if (!playerIds.includes(winnerId) || !loserId) {
+        throw new EloValidationError(
+          EloErrorCode.PLAYER_NOT_IN_MATCH,
+          `Player with id ${winnerId} is not in match ${matchId}`,
+        );
+      }
+
+      for (const result of calculateDuel(
+        getPlayer(winnerId),
+        getPlayer(loserId),
+        options,
+      )) {
+        ratings.set(result.id, {
+          ...getPlayer(result.id),
+          rating: result.newRating,
+        });
+      }
+
+      match.winnerId = winnerId;
+      match.loserId = loserId;
+      match.played = true;
+      if (match.side === BracketSide.GRAND_FINAL) {
+        skipUnneededReset(match);
+      }
+      advanceByes();
+    },
+    getPlayers() {
+      return Array.from(ratings.values());
+    },
+    getChampionId() {
+      const final = matches[matches.length - 1];
+      return final.winnerId ?? undefined;
+    },
+  };
+};
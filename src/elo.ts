@@ -0,0 +1,1003 @@
+import { EloErrorCode, EloValidationError } from "./errors";
+import { normalCumulativeDistribution } from "./gaussian";
+import type { KFactorContext, KFactorPolicy } from "./kFactor";
+import type { MarginOfVictoryMultiplier } from "./marginOfVictory";
+import {
+  validateRating,
+  validateScore,
+  validateTeamRosters,
+  validateUniqueIds,
+} from "./validation";
+
+const DEFAULT_K_FACTOR = 15;
+const DEFAULT_LOGISTIC_BASE = 10;
+const DEFAULT_LOGISTIC_DIVISOR = 400;
+/** Elo's original model: each player's performance has a standard deviation of 200 */
+const DEFAULT_NORMAL_DIVISOR = 200 * Math.SQRT2;
+const DEFAULT_TEAM_SIZE_ADVANTAGE = 100;
+const DEFAULT_PROVISIONAL_GAMES = 20;
+const DEFAULT_PROVISIONAL_OPPONENT_DAMPING = 0.5;
+/** Rating points above (win) or below (loss) the opponent credited as performance */
+const PROVISIONAL_PERFORMANCE_SPREAD = 400;
+
+export enum CalculationStrategy {
+  /** Teams are treated as single entities with average ratings */
+  AVERAGE_TEAMS = "AVERAGE_TEAMS",
+  /** Individual player contributions are weighted by their rating percentage within the team */
+  WEIGHTED_TEAMS = "WEIGHTED_TEAMS",
+}
+
+export enum TeamStrengthModel {
+  /** Average rating, so team size does not matter */
+  AVERAGE = "AVERAGE",
+  /** Sum of ratings, so every extra player adds their full rating */
+  SUM = "SUM",
+  /** Average rating plus `sizeAdvantage` rating points per player */
+  AVERAGE_WITH_SIZE_ADVANTAGE = "AVERAGE_WITH_SIZE_ADVANTAGE",
+}
+
+export enum DuelOutcome {
+  WIN = "WIN",
+  DRAW = "DRAW",
+  LOSS = "LOSS",
+}
+
+export enum ExpectedScoreModel {
+  /** 1 / (1 + base^((r2 - r1) / divisor)) */
+  LOGISTIC = "LOGISTIC",
+  /** Normal CDF of (r1 - r2) / divisor, where divisor is the standard deviation of the rating difference */
+  NORMAL = "NORMAL",
+}
+
+export enum RoundingMode {
+  /** Each rating change is rounded to an integer on its own */
+  ROUND = "ROUND",
+  /** Integer changes distributed by largest remainder so they sum exactly to the rounded total change, zero for zero-sum matches */
+  ZERO_SUM = "ZERO_SUM",
+  /** Unrounded floating-point ratings */
+  NONE = "NONE",
+}
+
+export enum MatchType {
+  DUEL = "DUEL",
+  FREE_FOR_ALL = "FREE_FOR_ALL",
+  TEAM = "TEAM",
+}
+
+export interface Player {
+  id: string;
+  rating: number;
+  /** Rated games completed before this match, used by K-factor policies */
+  gamesPlayed?: number;
+  /** Highest rating the player has reached, used by K-factor policies and `RatingLimits.peakFloorGap` */
+  peakRating?: number;
+  /** Lowest rating this player can fall to, e.g. an earned floor */
+  ratingFloor?: number;
+  /** Fraction of a team match this player took part in, scaling their team strength contribution and rating change, default: 1 */
+  participation?: number;
+  /** Rating points added to this player's strength when calculating expected scores */
+  handicap?: number;
+  /** Receives `Options.homeAdvantage` when calculating expected scores */
+  home?: boolean;
+}
+
+export interface RatingScale {
+  model?: ExpectedScoreModel;
+  /** Logistic base, default: 10 */
+  base?: number;
+  /** default: 400 for LOGISTIC and 200 * sqrt(2) for NORMAL */
+  divisor?: number;
+}
+
+export interface TeamStrength {
+  /** default: AVERAGE */
+  model?: TeamStrengthModel;
+  /** Rating points per player for AVERAGE_WITH_SIZE_ADVANTAGE, default: 100 */
+  sizeAdvantage?: number;
+}
+
+export interface PairwiseContribution {
+  opponentIds: string[];
+  expectedScore: number;
+  actualScore: number;
+  kFactor: number;
+  marginOfVictoryMultiplier: number;
+  /** Unrounded rating change contributed by this pairing */
+  ratingChange: number;
+}
+
+export interface RatingBreakdown {
+  oldRating: number;
+  /** Applied change, after rounding and rating limits */
+  ratingChange: number;
+  /** Averaged across pairings */
+  expectedScore: number;
+  /** Averaged across pairings */
+  actualScore: number;
+  /** Averaged across pairings */
+  kFactor: number;
+  pairings: PairwiseContribution[];
+}
+
+export interface MatchResultItem {
+  id: string;
+  newRating: number;
+  /** Present when `Options.includeBreakdown` is set */
+  breakdown?: RatingBreakdown;
+  /** Present when `Options.provisional` is set: whether the player is still provisional after this match */
+  provisional?: boolean;
+}
+
+export type MatchResult = MatchResultItem[];
+
+export interface Options {
+  kFactor?: number | KFactorPolicy;
+  strategy?: CalculationStrategy;
+  /** Scales rating changes by score margin in score-based matches; ties are not scaled */
+  marginOfVictory?: MarginOfVictoryMultiplier;
+  /** Rating points added to the strength of the entity marked as `home` */
+  homeAdvantage?: number;
+  /** Expected score model and scale, default: logistic with base 10 and divisor 400 */
+  scale?: RatingScale;
+  /** How a team's players combine into its strength, default: average rating */
+  teamStrength?: TeamStrength;
+  /** default: ROUND */
+  rounding?: RoundingMode;
+  /** Adds a `breakdown` explaining each rating change to the results */
+  includeBreakdown?: boolean;
+  /** Rates players with fewer than `gamesThreshold` games by performance instead of K-factor updates */
+  provisional?: ProvisionalOptions;
+  /** Rating floors and ceilings applied to new ratings */
+  ratingLimits?: RatingLimits;
+}
+
+export interface RatingLimits {
+  /** Lowest rating for every player, default: none */
+  floor?: number;
+  /** Keeps each player within this many points of their `peakRating`, e.g. 200 as in USCF, default: none */
+  peakFloorGap?: number;
+  /** Highest rating for every player, default: none */
+  ceiling?: number;
+  /** Takes points a limit absorbed back from the players who moved the other way, so the match total is unchanged, default: false */
+  compensate?: boolean;
+}
+
+export interface ProvisionalOptions {
+  /** Games a player needs before receiving standard updates, default: 20 */
+  gamesThreshold?: number;
+  /** Multiplier applied to an established player's change against a provisional opponent, default: 0.5 */
+  opponentDamping?: number;
+}
+
+export interface PlayerWithScore {
+  player: Player;
+  score: number;
+}
+
+export interface TeamWithScore {
+  players: Player[];
+  score: number;
+  /** Rating points added to the team's average rating when calculating expected scores */
+  handicap?: number;
+  /** Receives `Options.homeAdvantage` when calculating expected scores */
+  home?: boolean;
+}
+
+export interface Team {
+  players: Player[];
+  handicap?: number;
+  home?: boolean;
+}
+
+interface RatingChangeCandidate {
+  player: Player;
+  exactChange: number;
+  roundedChange: number;
+  pairings: PairwiseContribution[];
+}
+
+const distributeLargestRemainder = (exactChanges: number[]): number[] => {
+  const changes = exactChanges.map((change) => Math.floor(change));
+  const exactTotal = exactChanges.reduce((sum, change) => sum + change, 0);
+  const flooredTotal = changes.reduce((sum, change) => sum + change, 0);
+  const remainderCount = Math.round(exactTotal) - flooredTotal;
+
+  const indicesByRemainder = exactChanges
+    .map((_, index) => index)
+    .sort(
+      (a, b) =>
+        exactChanges[b] - changes[b] - (exactChanges[a] - changes[a]) || a - b,
+    );
+  for (const index of indicesByRemainder.slice(0, remainderCount)) {
+    changes[index] += 1;
+  }
+  return changes;
+};
+
+const applyRounding = (
+  candidates: RatingChangeCandidate[],
+  options: Options,
+): number[] => {
+  switch (options.rounding ?? RoundingMode.ROUND) {
+    case RoundingMode.NONE:
+      return candidates.map((candidate) => candidate.exactChange);
+    case RoundingMode.ZERO_SUM:
+      return distributeLargestRemainder(
+        candidates.map((candidate) => candidate.exactChange),
+      );
+    case RoundingMode.ROUND:
+      return candidates.map((candidate) => candidate.roundedChange);
+  }
+};
+
+const averagePairings = (
+  pairings: PairwiseContribution[],
+  select: (pairing: PairwiseContribution) => number,
+): number =>
+  pairings.length === 0
+    ? 0
+    : pairings.reduce((sum, pairing) => sum + select(pairing), 0) /
+      pairings.length;
+
+const createBreakdown = (
+  candidate: RatingChangeCandidate,
+  ratingChange: number,
+): RatingBreakdown => ({
+  oldRating: candidate.player.rating,
+  ratingChange,
+  expectedScore: averagePairings(
+    candidate.pairings,
+    (pairing) => pairing.expectedScore,
+  ),
+  actualScore: averagePairings(
+    candidate.pairings,
+    (pairing) => pairing.actualScore,
+  ),
+  kFactor: averagePairings(candidate.pairings, (pairing) => pairing.kFactor),
+  pairings: candidate.pairings,
+});
+
+/** Players without `gamesPlayed` are treated as established */
+const isProvisional = (
+  player: Player,
+  provisional: ProvisionalOptions,
+  gamesPlayed = player.gamesPlayed,
+): boolean =>
+  gamesPlayed !== undefined &&
+  gamesPlayed < (provisional.gamesThreshold ?? DEFAULT_PROVISIONAL_GAMES);
+
+/**
+ * Provisional players get the running average of their previous rating
+ * (weighted by games played) and this match's performance: the opponents'
+ * rating +/- 400 scaled by the actual score, as in the USCF special formula.
+ */
+const toProvisionalCandidate = (
+  candidate: RatingChangeCandidate,
+  playersById: Map<string, Player>,
+): RatingChangeCandidate => {
+  const { player } = candidate;
+  const weight = (player.gamesPlayed ?? 0) + 1;
+
+  const pairings = candidate.pairings.map((pairing) => {
+    const opponentRating =
+      pairing.opponentIds.reduce(
+        (sum, id) => sum + (playersById.get(id)?.rating ?? 0),
+        0,
+      ) / pairing.opponentIds.length;
+    const performance =
+      opponentRating +
+      PROVISIONAL_PERFORMANCE_SPREAD * (2 * pairing.actualScore - 1);
+    return {
+      ...pairing,
+      ratingChange:
+        (performance - player.rating) / weight / candidate.pairings.length,
+    };
+  });
+  const exactChange = pairings.reduce(
+    (sum, pairing) => sum + pairing.ratingChange,
+    0,
+  );
+
+  return {
+    player,
+    exactChange,
+    roundedChange: roundAwayFromZero(exactChange),
+    pairings,
+  };
+};
+
+/** Damping is proportional to the share of provisional players among the opponents */
+const toDampedCandidate = (
+  candidate: RatingChangeCandidate,
+  provisionalIds: Set<string>,
+  opponentDamping: number,
+): RatingChangeCandidate => {
+  let damped = false;
+  const pairings = candidate.pairings.map((pairing) => {
+    const provisionalShare =
+      pairing.opponentIds.filter((id) => provisionalIds.has(id)).length /
+      pairing.opponentIds.length;
+    if (provisionalShare === 0) {
+      return pairing;
+    }
+    damped = true;
+    const factor = 1 - (1 - opponentDamping) * provisionalShare;
+    return {
+      ...pairing,
+      kFactor: pairing.kFactor * factor,
+      ratingChange: pairing.ratingChange * factor,
+    };
+  });
+  if (!damped) {
+    return candidate;
+  }
+  const exactChange = pairings.reduce(
+    (sum, pairing) => sum + pairing.ratingChange,
+    0,
+  );
+
+  return {
+    player: candidate.player,
+    exactChange,
+    roundedChange: roundAwayFromZero(exactChange),
+    pairings,
+  };
+};
+
+const applyProvisionalRatings = (
+  candidates: RatingChangeCandidate[],
+  provisional: ProvisionalOptions,
+): RatingChangeCandidate[] => {
+  const playersById = new Map(
+    candidates.map((candidate) => [candidate.player.id, candidate.player]),
+  );
+  const provisionalIds = new Set(
+    candidates
+      .filter((candidate) => isProvisional(candidate.player, provisional))
+      .map((candidate) => candidate.player.id),
+  );
+  const opponentDamping =
+    provisional.opponentDamping ?? DEFAULT_PROVISIONAL_OPPONENT_DAMPING;
+
+  return candidates.map((candidate) =>
+    provisionalIds.has(candidate.player.id)
+      ? toProvisionalCandidate(candidate, playersById)
+      : toDampedCandidate(candidate, provisionalIds, opponentDamping),
+  );
+};
+
+/** A limit never moves a rating that is already past it */
+const getRatingBounds = (
+  player: Player,
+  limits: RatingLimits,
+): [number, number] => {
+  const floor = Math.max(
+    limits.floor ?? -Infinity,
+    player.ratingFloor ?? -Infinity,
+    limits.peakFloorGap !== undefined && player.peakRating !== undefined
+      ? player.peakRating - limits.peakFloorGap
+      : -Infinity,
+  );
+  const ceiling = limits.ceiling ?? Infinity;
+  return [Math.min(floor, player.rating), Math.max(ceiling, player.rating)];
+};
+
+/**
+ * Clamps each new rating to the player's floor and ceiling. With
+ * `compensate`, the absorbed points are taken from the unclamped players
+ * moving the other way, in proportion to their change.
+ */
+const applyRatingLimits = (
+  candidates: RatingChangeCandidate[],
+  changes: number[],
+  options: Options,
+): number[] => {
+  const limits = options.ratingLimits ?? {};
+  const limited = candidates.map(({ player }, index) => {
+    const [floor, ceiling] = getRatingBounds(player, limits);
+    const newRating = Math.min(
+      Math.max(player.rating + changes[index], floor),
+      ceiling,
+    );
+    return newRating - player.rating;
+  });
+  const absorbed = limited.reduce(
+    (sum, change, index) => sum + change - changes[index],
+    0,
+  );
+  if (!limits.compensate || absorbed === 0) {
+    return limited;
+  }
+
+  const direction = Math.sign(absorbed);
+  const available = limited.map((change, index) =>
+    change === changes[index] && Math.sign(change) === direction
+      ? Math.abs(change)
+      : 0,
+  );
+  const totalAvailable = available.reduce((sum, amount) => sum + amount, 0);
+  if (totalAvailable === 0) {
+    return limited;
+  }
+  const taken = Math.min(Math.abs(absorbed), totalAvailable);
+  const shares = available.map((amount) => (amount / totalAvailable) * taken);
+  const roundedShares =
+    options.rounding === RoundingMode.NONE
+      ? shares
+      : distributeLargestRemainder(shares);
+  return limited.map(
+    (change, index) => change - direction * roundedShares[index],
+  );
+};
+
+const hasRatingLimits = (
+  candidates: RatingChangeCandidate[],
+  options: Options,
+): boolean =>
+  options.ratingLimits !== undefined ||
+  candidates.some(({ player }) => player.ratingFloor !== undefined);
+
+const toMatchResult = (
+  matchCandidates: RatingChangeCandidate[],
+  options: Options,
+): MatchResult => {
+  const { provisional } = options;
+  const candidates = provisional
+    ? applyProvisionalRatings(matchCandidates, provisional)
+    : matchCandidates;
+  const roundedChanges = applyRounding(candidates, options);
+  const changes = hasRatingLimits(candidates, options)
+    ? applyRatingLimits(candidates, roundedChanges, options)
+    : roundedChanges;
+
+  return candidates.map((candidate, index) => {
+    const { player } = candidate;
+    const result: MatchResultItem = {
+      id: player.id,
+      newRating: player.rating + changes[index],
+    };
+    if (options.includeBreakdown) {
+      result.breakdown = createBreakdown(candidate, changes[index]);
+    }
+    if (provisional) {
+      result.provisional =
+        player.gamesPlayed !== undefined &&
+        isProvisional(player, provisional, player.gamesPlayed + 1);
+    }
+    return result;
+  });
+};
+
+const resolveKFactor = (options: Options, context: KFactorContext): number => {
+  const kFactor =
+    typeof options.kFactor === "function"
+      ? options.kFactor(context)
+      : (options.kFactor ?? DEFAULT_K_FACTOR);
+  if (!Number.isFinite(kFactor) || kFactor < 0) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_K_FACTOR,
+      "K-factor must be a finite non-negative number",
+    );
+  }
+  return kFactor;
+};
+
+const getMarginOfVictoryMultiplier = (
+  options: Options,
+  score: number,
+  otherScore: number,
+  rating: number,
+  otherRating: number,
+): number => {
+  if (!options.marginOfVictory || score === otherScore) {
+    return 1;
+  }
+  const winnerRatingDifference =
+    score > otherScore ? rating - otherRating : otherRating - rating;
+  const multiplier = options.marginOfVictory({
+    scoreDifference: Math.abs(score - otherScore),
+    winnerRatingDifference,
+  });
+  if (!Number.isFinite(multiplier) || multiplier <= 0) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_MARGIN_OF_VICTORY,
+      "Margin-of-victory multiplier must be a finite positive number",
+    );
+  }
+  return multiplier;
+};
+
+const getParticipation = (player: Player): number => player.participation ?? 1;
+
+const validatePlayer = (player: Player): void => {
+  validateRating(player.rating, player.id);
+  if (player.handicap !== undefined && !Number.isFinite(player.handicap)) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_RATING,
+      `Player with id ${player.id} must have a finite handicap`,
+    );
+  }
+  const participation = getParticipation(player);
+  if (!(participation > 0 && participation <= 1)) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_PARTICIPATION,
+      "Participation must be greater than 0 and at most 1",
+    );
+  }
+};
+
+const getTotalParticipation = (players: Player[]): number =>
+  players.reduce((sum, player) => sum + getParticipation(player), 0);
+
+/** Weighted by participation, so substitutes count for the time they played */
+const getAverageRating = (players: Player[]): number => {
+  if (players.length === 0) {
+    throw new EloValidationError(
+      EloErrorCode.EMPTY_TEAM,
+      "Team cannot be empty",
+    );
+  }
+  return (
+    players.reduce(
+      (sum, player) =>
+        sum +
+        getParticipation(player) * (player.rating + (player.handicap ?? 0)),
+      0,
+    ) / getTotalParticipation(players)
+  );
+};
+
+/**
+ * Team strength before team handicap and home advantage. Only differences
+ * between teams matter, so the per-player size advantage amounts to
+ * `sizeAdvantage` points for each player one team has over the other.
+ */
+const getTeamStrength = (players: Player[], options: Options): number => {
+  const averageRating = getAverageRating(players);
+  const teamStrength = options.teamStrength ?? {};
+  switch (teamStrength.model ?? TeamStrengthModel.AVERAGE) {
+    case TeamStrengthModel.AVERAGE:
+      return averageRating;
+    case TeamStrengthModel.SUM:
+      return averageRating * getTotalParticipation(players);
+    case TeamStrengthModel.AVERAGE_WITH_SIZE_ADVANTAGE:
+      return (
+        averageRating +
+        (teamStrength.sizeAdvantage ?? DEFAULT_TEAM_SIZE_ADVANTAGE) *
+          getTotalParticipation(players)
+      );
+  }
+};
+
+const getRatingAdjustment = (
+  entity: Player | Team,
+  options: Options,
+): number => {
+  const homeAdvantage = entity.home ? (options.homeAdvantage ?? 0) : 0;
+  if (!Number.isFinite(homeAdvantage)) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Home advantage must be a finite number",
+    );
+  }
+  return (entity.handicap ?? 0) + homeAdvantage;
+};
+
+/**
+ * Team strength on the rating scale, as compared by `calculateExpectedScore`
+ * and the team match calculations: the `teamStrength` model over
+ * participation-weighted player ratings and handicaps, plus the team handicap
+ * and home advantage.
+ */
+export const calculateTeamStrength = (
+  team: Team,
+  options: Options = {},
+): number => {
+  team.players.forEach(validatePlayer);
+  if (team.handicap !== undefined && !Number.isFinite(team.handicap)) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_RATING,
+      "Team handicap must be a finite number",
+    );
+  }
+  return (
+    getTeamStrength(team.players, options) + getRatingAdjustment(team, options)
+  );
+};
+
+const getRating = (
+  entity: number | Player | Team,
+  options: Options = {},
+): number => {
+  if (typeof entity === "number") {
+    validateRating(entity);
+    return entity;
+  }
+  if ("rating" in entity) {
+    validatePlayer(entity);
+    return entity.rating + getRatingAdjustment(entity, options);
+  }
+  if ("players" in entity) {
+    return calculateTeamStrength(entity, options);
+  }
+  throw new EloValidationError(
+    EloErrorCode.INVALID_ENTITY,
+    "Invalid entity type for rating calculation",
+  );
+};
+
+/**
+ * Handicaps and home advantage are applied to Player and Team entities;
+ * plain numbers are used as-is.
+ */
+export const calculateExpectedScore = (
+  entity1: number | Player | Team,
+  entity2: number | Player | Team,
+  options: Options = {},
+): number => {
+  const rating1 = getRating(entity1, options);
+  const rating2 = getRating(entity2, options);
+  const scale = options.scale ?? {};
+  const isNormal = scale.model === ExpectedScoreModel.NORMAL;
+  const divisor =
+    scale.divisor ??
+    (isNormal ? DEFAULT_NORMAL_DIVISOR : DEFAULT_LOGISTIC_DIVISOR);
+  if (!Number.isFinite(divisor) || divisor <= 0) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Scale divisor must be a finite positive number",
+    );
+  }
+
+  if (isNormal) {
+    return normalCumulativeDistribution((rating1 - rating2) / divisor);
+  }
+
+  const base = scale.base ?? DEFAULT_LOGISTIC_BASE;
+  return 1 / (1 + Math.pow(base, (rating2 - rating1) / divisor));
+};
+
+/** Actual score of a duel from a `DuelOutcome` or a score between 0 and 1 */
+export const calculateActualScore = (outcome: DuelOutcome | number): number => {
+  switch (outcome) {
+    case DuelOutcome.WIN:
+      return 1;
+    case DuelOutcome.DRAW:
+      return 0.5;
+    case DuelOutcome.LOSS:
+      return 0;
+  }
+  if (!Number.isFinite(outcome) || outcome < 0 || outcome > 1) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_SCORE,
+      "Actual score must be between 0 and 1",
+    );
+  }
+  return outcome;
+};
+
+/** 1 when `score` beats `otherScore` (higher is better), 0.5 for a tie, 0 otherwise */
+export const calculatePairwiseActualScore = (
+  score: number,
+  otherScore: number,
+): number => {
+  validateScore(score);
+  validateScore(otherScore);
+  if (score > otherScore) return 1;
+  if (score === otherScore) return 0.5;
+  return 0;
+};
+
+export const calculateDuel = (
+  winner: Player,
+  loser: Player,
+  options: Options = {},
+): MatchResult => {
+  return calculateDuelOutcome(winner, loser, DuelOutcome.WIN, options);
+};
+
+/**
+ * Outcome is from `player`'s perspective: a `DuelOutcome` or an actual score
+ * between 0 and 1 (e.g. 0.75 for winning three games of a best-of-four series).
+ */
+export const calculateDuelOutcome = (
+  player: Player,
+  opponent: Player,
+  outcome: DuelOutcome | number,
+  options: Options = {},
+): MatchResult => {
+  validateUniqueIds([player.id, opponent.id]);
+  const actualPlayer = calculateActualScore(outcome);
+  const actualOpponent = 1 - actualPlayer;
+
+  const expectedPlayer = calculateExpectedScore(player, opponent, options);
+  const expectedOpponent = calculateExpectedScore(opponent, player, options);
+
+  const playerKFactor = resolveKFactor(options, {
+    player,
+    opponent,
+    opponentRating: opponent.rating,
+    matchType: MatchType.DUEL,
+  });
+  const opponentKFactor = resolveKFactor(options, {
+    player: opponent,
+    opponent: player,
+    opponentRating: player.rating,
+    matchType: MatchType.DUEL,
+  });
+
+  const playerChange = playerKFactor * (actualPlayer - expectedPlayer);
+  const opponentChange = opponentKFactor * (actualOpponent - expectedOpponent);
+
+  return toMatchResult(
+    [
+      {
+        player,
+        exactChange: playerChange,
+        roundedChange: Math.round(playerChange),
+        pairings: [
+          {
+            opponentIds: [opponent.id],
+            expectedScore: expectedPlayer,
+            actualScore: actualPlayer,
+            kFactor: playerKFactor,
+            marginOfVictoryMultiplier: 1,
+            ratingChange: playerChange,
+          },
+        ],
+      },
+      {
+        player: opponent,
+        exactChange: opponentChange,
+        roundedChange: Math.round(opponentChange),
+        pairings: [
+          {
+            opponentIds: [player.id],
+            expectedScore: expectedOpponent,
+            actualScore: actualOpponent,
+            kFactor: opponentKFactor,
+            marginOfVictoryMultiplier: 1,
+            ratingChange: opponentChange,
+          },
+        ],
+      },
+    ],
+    options,
+  );
+};
+
+export const calculateFreeForAll = (
+  playersWithScores: PlayerWithScore[],
+  options: Options = {},
+): MatchResult => {
+  validateUniqueIds(playersWithScores.map(({ player }) => player.id));
+  for (const { score } of playersWithScores) {
+    validateScore(score);
+  }
+
+  const candidates: RatingChangeCandidate[] = [];
+
+  for (const playerScore of playersWithScores) {
+    let totalRatingChange = 0;
+    const pairings: PairwiseContribution[] = [];
+
+    const playerStrength = getRating(playerScore.player, options);
+
+    for (const otherPlayerScore of playersWithScores) {
+      if (playerScore.player.id === otherPlayerScore.player.id) continue;
+
+      const otherPlayerStrength = getRating(otherPlayerScore.player, options);
+      const expected = calculateExpectedScore(
+        playerStrength,
+        otherPlayerStrength,
+        options,
+      );
+
+      const actual = calculatePairwiseActualScore(
+        playerScore.score,
+        otherPlayerScore.score,
+      );
+
+      const kFactor = resolveKFactor(options, {
+        player: playerScore.player,
+        opponent: otherPlayerScore.player,
+        opponentRating: otherPlayerScore.player.rating,
+        matchType: MatchType.FREE_FOR_ALL,
+      });
+      const marginOfVictoryMultiplier = getMarginOfVictoryMultiplier(
+        options,
+        playerScore.score,
+        otherPlayerScore.score,
+        playerStrength,
+        otherPlayerStrength,
+      );
+      const pairingChange =
+        kFactor * marginOfVictoryMultiplier * (actual - expected);
+      totalRatingChange += pairingChange;
+      pairings.push({
+        opponentIds: [otherPlayerScore.player.id],
+        expectedScore: expected,
+        actualScore: actual,
+        kFactor,
+        marginOfVictoryMultiplier,
+        ratingChange: pairingChange,
+      });
+    }
+
+    candidates.push({
+      player: playerScore.player,
+      exactChange: totalRatingChange,
+      roundedChange: roundAwayFromZero(totalRatingChange),
+      pairings,
+    });
+  }
+
+  return toMatchResult(candidates, options);
+};
+
+interface TeamPairing {
+  otherTeam: TeamWithScore;
+  otherTeamAvgRating: number;
+  expected: number;
+  actual: number;
+  marginOfVictoryMultiplier: number;
+  performanceDelta: number;
+}
+
+const calculateTeamAverageRating = (players: Player[]): number => {
+  if (players.length === 0) {
+    throw new EloValidationError(
+      EloErrorCode.EMPTY_TEAM,
+      "Team cannot be empty",
+    );
+  }
+  return calculateTeamTotalRating(players) / getTotalParticipation(players);
+};
+
+const calculateTeamTotalRating = (players: Player[]): number => {
+  return players.reduce(
+    (sum, player) => sum + getParticipation(player) * player.rating,
+    0,
+  );
+};
+
+const roundAwayFromZero = (change: number): number =>
+  Math.sign(change) * Math.round(Math.abs(change));
+
+const calculatePlayerWeight = (
+  player: Player,
+  teamPlayers: Player[],
+): number => {
+  const totalRating = calculateTeamTotalRating(teamPlayers);
+  let weight = (getParticipation(player) * player.rating) / totalRating;
+
+  // Micro-adjustment to prevent exact 0.5 weights and ensure rating conservation
+  if (weight > 0.5) {
+    weight += 0.0001;
+  } else {
+    weight -= 0.0001;
+  }
+  return weight;
+};
+
+export const calculateTeamMatch = (
+  team1: TeamWithScore,
+  team2: TeamWithScore,
+  options: Options = {},
+): MatchResult => {
+  return calculateMultiTeamMatch([team1, team2], options);
+};
+
+export const calculateMultiTeamMatch = (
+  teams: TeamWithScore[],
+  options: Options = {},
+): MatchResult => {
+  if (teams.length < 2) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_TEAMS,
+      "At least 2 teams are required for a team match",
+    );
+  }
+
+  const strategy = options.strategy ?? CalculationStrategy.AVERAGE_TEAMS;
+
+  for (const team of teams) {
+    if (team.players.length === 0) {
+      throw new EloValidationError(
+        EloErrorCode.EMPTY_TEAM,
+        "Team cannot be empty",
+      );
+    }
+    team.players.forEach(validatePlayer);
+    validateScore(team.score);
+  }
+  validateTeamRosters(teams);
+
+  const playerChanges = new Map<string, RatingChangeCandidate>();
+
+  for (const team of teams) {
+    const teamStrength = getRating(team, options);
+    const pairings: TeamPairing[] = [];
+
+    for (const otherTeam of teams) {
+      if (team === otherTeam) continue;
+
+      const otherTeamAvgRating = calculateTeamAverageRating(otherTeam.players);
+      const otherTeamStrength = getRating(otherTeam, options);
+      const expected = calculateExpectedScore(
+        teamStrength,
+        otherTeamStrength,
+        options,
+      );
+
+      const actual = calculatePairwiseActualScore(team.score, otherTeam.score);
+
+      const marginOfVictoryMultiplier = getMarginOfVictoryMultiplier(
+        options,
+        team.score,
+        otherTeam.score,
+        teamStrength,
+        otherTeamStrength,
+      );
+      pairings.push({
+        otherTeam,
+        otherTeamAvgRating,
+        expected,
+        actual,
+        marginOfVictoryMultiplier,
+        performanceDelta: marginOfVictoryMultiplier * (actual - expected),
+      });
+    }
+
+    const totalParticipation = getTotalParticipation(team.players);
+    for (const player of team.players) {
+      // Team members' factors sum to the team's total participation under both strategies
+      const distributionFactor =
+        strategy === CalculationStrategy.WEIGHTED_TEAMS
+          ? totalParticipation *
+            ((getParticipation(player) * player.rating) /
+              calculateTeamTotalRating(team.players))
+          : getParticipation(player);
+      let teamRatingChange = 0;
+      const playerPairings: PairwiseContribution[] = [];
+
+      for (const pairing of pairings) {
+        const kFactor = resolveKFactor(options, {
+          player,
+          opponent: pairing.otherTeam,
+          opponentRating: pairing.otherTeamAvgRating,
+          matchType: MatchType.TEAM,
+        });
+        const pairingChange = kFactor * pairing.performanceDelta;
+        teamRatingChange += pairingChange;
+        playerPairings.push({
+          opponentIds: pairing.otherTeam.players.map((p) => p.id),
+          expectedScore: pairing.expected,
+          actualScore: pairing.actual,
+          kFactor,
+          marginOfVictoryMultiplier: pairing.marginOfVictoryMultiplier,
+          ratingChange: pairingChange * distributionFactor,
+        });
+      }
+
+      const roundedTeamRatingChange = roundAwayFromZero(teamRatingChange);
+      const roundedChange =
+        strategy === CalculationStrategy.WEIGHTED_TEAMS
+          ? Math.round(
+              roundedTeamRatingChange *
+                totalParticipation *
+                calculatePlayerWeight(player, team.players),
+            )
+          : roundAwayFromZero(teamRatingChange * getParticipation(player));
+
+      playerChanges.set(player.id, {
+        player,
+        exactChange: teamRatingChange * distributionFactor,
+        roundedChange,
+        pairings: playerPairings,
+      });
+    }
+  }
+
+  return toMatchResult(Array.from(playerChanges.values()), options);
+};
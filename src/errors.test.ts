@@ -0,0 +1,255 @@
+import {
+  calculateDuel,
+  calculateDuelOutcome,
+  calculateExpectedScore,
+  calculateFreeForAll,
+  calculateGlickoFreeForAll,
+  calculateGlickoRatingPeriod,
+  calculateMultiTeamMatch,
+  calculateTeamMatch,
+  calculateTrueSkillTeamMatch,
+  createGlickoPlayer,
+  createRatingLedger,
+  createTrueSkillPlayer,
+  EloError,
+  EloErrorCode,
+  EloNotFoundError,
+  EloValidationError,
+  ExpectedScoreModel,
+} from "./index";
+
+const getError = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected function to throw");
+};
+
+const expectCode = (fn: () => unknown, code: EloErrorCode) => {
+  const error = getError(fn);
+  expect(error).toBeInstanceOf(EloValidationError);
+  expect((error as EloError).code).toBe(code);
+};
+
+describe("typed errors", () => {
+  test("should expose the class hierarchy, name and code", () => {
+    const error = getError(() =>
+      calculateMultiTeamMatch([{ players: [], score: 1 }]),
+    );
+
+    expect(error).toBeInstanceOf(EloValidationError);
+    expect(error).toBeInstanceOf(EloError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: "EloValidationError",
+      code: EloErrorCode.NOT_ENOUGH_TEAMS,
+      message: "At least 2 teams are required for a team match",
+    });
+  });
+
+  test("should throw EloNotFoundError for unknown ids", () => {
+    const error = getError(() => createRatingLedger().removeMatch("m1"));
+
+    expect(error).toBeInstanceOf(EloNotFoundError);
+    expect(error).toMatchObject({
+      name: "EloNotFoundError",
+      code: EloErrorCode.MATCH_NOT_FOUND,
+    });
+  });
+});
+
+describe("strict input validation", () => {
+  const p1 = { id: "p1", rating: 1500 };
+  const p2 = { id: "p2", rating: 1500 };
+
+  test("should reject non-finite ratings", () => {
+    expectCode(
+      () => calculateDuel({ id: "p1", rating: NaN }, p2),
+      EloErrorCode.INVALID_RATING,
+    );
+    expectCode(
+      () => calculateExpectedScore(Infinity, 1500),
+      EloErrorCode.INVALID_RATING,
+    );
+    expect(() =>
+      calculateTeamMatch(
+        { players: [p1, { id: "p3", rating: NaN }], score: 1 },
+        { players: [p2], score: 0 },
+      ),
+    ).toThrow("Player with id p3 must have a finite rating");
+  });
+
+  test("should reject negative or non-finite K-factors", () => {
+    expectCode(
+      () => calculateDuel(p1, p2, { kFactor: -1 }),
+      EloErrorCode.INVALID_K_FACTOR,
+    );
+    expectCode(
+      () =>
+        calculateFreeForAll(
+          [
+            { player: p1, score: 1 },
+            { player: p2, score: 0 },
+          ],
+          { kFactor: () => NaN },
+        ),
+      EloErrorCode.INVALID_K_FACTOR,
+    );
+  });
+
+  test("should reject invalid margin-of-victory multipliers", () => {
+    for (const multiplier of [0, -1, NaN, Infinity]) {
+      expectCode(
+        () =>
+          calculateFreeForAll(
+            [
+              { player: p1, score: 3 },
+              { player: p2, score: 1 },
+            ],
+            { marginOfVictory: () => multiplier },
+          ),
+        EloErrorCode.INVALID_MARGIN_OF_VICTORY,
+      );
+    }
+  });
+
+  test("should reject non-finite handicaps and home advantage", () => {
+    expect(() => calculateDuel({ ...p1, handicap: NaN }, p2)).toThrow(
+      "Player with id p1 must have a finite handicap",
+    );
+    expectCode(
+      () =>
+        calculateTeamMatch(
+          { players: [p1], score: 1, handicap: Infinity },
+          { players: [p2], score: 0 },
+        ),
+      EloErrorCode.INVALID_RATING,
+    );
+    expectCode(
+      () => calculateDuel({ ...p1, home: true }, p2, { homeAdvantage: NaN }),
+      EloErrorCode.INVALID_ARGUMENT,
+    );
+  });
+
+  test("should reject a non-positive or non-finite scale divisor", () => {
+    expectCode(
+      () => calculateExpectedScore(1500, 1400, { scale: { divisor: 0 } }),
+      EloErrorCode.INVALID_ARGUMENT,
+    );
+    expectCode(
+      () =>
+        calculateDuel(p1, p2, {
+          scale: { model: ExpectedScoreModel.NORMAL, divisor: -200 },
+        }),
+      EloErrorCode.INVALID_ARGUMENT,
+    );
+  });
+
+  test("should reject participation outside (0, 1] in every match type", () => {
+    expectCode(
+      () => calculateDuel({ ...p1, participation: 0 }, p2),
+      EloErrorCode.INVALID_PARTICIPATION,
+    );
+    expectCode(
+      () =>
+        calculateFreeForAll([
+          { player: p1, score: 1 },
+          { player: { ...p2, participation: 1.5 }, score: 0 },
+        ]),
+      EloErrorCode.INVALID_PARTICIPATION,
+    );
+  });
+
+  test("should reject duplicate player ids", () => {
+    expectCode(() => calculateDuel(p1, p1), EloErrorCode.DUPLICATE_PLAYER_ID);
+    expect(() =>
+      calculateFreeForAll([
+        { player: p1, score: 1 },
+        { player: p1, score: 0 },
+      ]),
+    ).toThrow("Player with id p1 appears more than once");
+    expectCode(
+      () =>
+        calculateTeamMatch(
+          { players: [p1, p1], score: 1 },
+          { players: [p2], score: 0 },
+        ),
+      EloErrorCode.DUPLICATE_PLAYER_ID,
+    );
+  });
+
+  test("should reject a player on two teams", () => {
+    expectCode(
+      () =>
+        calculateMultiTeamMatch([
+          { players: [p1], score: 2 },
+          { players: [p2], score: 1 },
+          { players: [p1], score: 0 },
+        ]),
+      EloErrorCode.PLAYER_ON_MULTIPLE_TEAMS,
+    );
+  });
+
+  test("should reject non-finite scores", () => {
+    expectCode(
+      () =>
+        calculateFreeForAll([
+          { player: p1, score: NaN },
+          { player: p2, score: 0 },
+        ]),
+      EloErrorCode.INVALID_SCORE,
+    );
+    expectCode(
+      () =>
+        calculateTeamMatch(
+          { players: [p1], score: Infinity },
+          { players: [p2], score: 0 },
+        ),
+      EloErrorCode.INVALID_SCORE,
+    );
+    expectCode(
+      () => calculateDuelOutcome(p1, p2, NaN),
+      EloErrorCode.INVALID_SCORE,
+    );
+  });
+
+  test("should validate Glicko-2 and TrueSkill inputs", () => {
+    const glicko = createGlickoPlayer("g1");
+    expectCode(
+      () =>
+        calculateGlickoRatingPeriod(
+          [glicko, createGlickoPlayer("g2")],
+          [{ playerId: "g1", opponentId: "g1", score: 1 }],
+        ),
+      EloErrorCode.DUPLICATE_PLAYER_ID,
+    );
+    expectCode(
+      () =>
+        calculateGlickoFreeForAll([
+          { player: { ...glicko, ratingDeviation: -1 }, score: 1 },
+          { player: createGlickoPlayer("g2"), score: 0 },
+        ]),
+      EloErrorCode.INVALID_RATING,
+    );
+
+    const trueSkill = createTrueSkillPlayer("t1");
+    expectCode(
+      () =>
+        calculateTrueSkillTeamMatch(
+          { players: [trueSkill], score: 1 },
+          { players: [trueSkill], score: 0 },
+        ),
+      EloErrorCode.PLAYER_ON_MULTIPLE_TEAMS,
+    );
+    expectCode(
+      () =>
+        calculateTrueSkillTeamMatch(
+          { players: [{ ...trueSkill, sigma: NaN }], score: 1 },
+          { players: [createTrueSkillPlayer("t2")], score: 0 },
+        ),
+      EloErrorCode.INVALID_RATING,
+    );
+  });
+});
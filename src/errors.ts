@@ -0,0 +1,41 @@
+export enum EloErrorCode {
+  INVALID_ARGUMENT = "INVALID_ARGUMENT",
+  INVALID_ENTITY = "INVALID_ENTITY",
+  INVALID_RATING = "INVALID_RATING",
+  INVALID_K_FACTOR = "INVALID_K_FACTOR",
+  INVALID_MARGIN_OF_VICTORY = "INVALID_MARGIN_OF_VICTORY",
+  INVALID_SCORE = "INVALID_SCORE",
+  INVALID_PARTICIPATION = "INVALID_PARTICIPATION",
+  EMPTY_TEAM = "EMPTY_TEAM",
+  NOT_ENOUGH_TEAMS = "NOT_ENOUGH_TEAMS",
+  NOT_ENOUGH_PLAYERS = "NOT_ENOUGH_PLAYERS",
+  NOT_ENOUGH_ENTITIES = "NOT_ENOUGH_ENTITIES",
+  NOT_ENOUGH_GAMES = "NOT_ENOUGH_GAMES",
+  NOT_ENOUGH_MATCHES = "NOT_ENOUGH_MATCHES",
+  DUPLICATE_PLAYER_ID = "DUPLICATE_PLAYER_ID",
+  PLAYER_ON_MULTIPLE_TEAMS = "PLAYER_ON_MULTIPLE_TEAMS",
+  DUPLICATE_MATCH_ID = "DUPLICATE_MATCH_ID",
+  PLAYER_NOT_FOUND = "PLAYER_NOT_FOUND",
+  MATCH_NOT_FOUND = "MATCH_NOT_FOUND",
+  MATCH_NOT_READY = "MATCH_NOT_READY",
+  PLAYER_NOT_IN_MATCH = "PLAYER_NOT_IN_MATCH",
+  NO_VALID_PAIRING = "NO_VALID_PAIRING",
+  NO_VALID_TEAMS = "NO_VALID_TEAMS",
+}
+
+/** Base class for every error thrown by this library */
+export class EloError extends Error {
+  readonly code: EloErrorCode;
+
+  constructor(code: EloErrorCode, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/** Invalid input: malformed players, scores, options or constraints that cannot be met */
+export class EloValidationError extends EloError {}
+
+/** A player or match id that does not exist where it was looked up */
+export class EloNotFoundError extends EloError {}
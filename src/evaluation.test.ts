@@ -0,0 +1,215 @@
+import {
+  calculateAccuracy,
+  calculateBrierScore,
+  calculateCalibration,
+  calculateExpectedScore,
+  calculateLogLoss,
+  collectPredictions,
+  DuelOutcome,
+  evaluateRatings,
+  MatchType,
+  type MatchRecord,
+  type Prediction,
+} from "./index";
+
+const prediction = (
+  expectedScore: number,
+  actualScore: number,
+): Prediction => ({
+  matchId: "m1",
+  type: MatchType.DUEL,
+  playerIds: ["p1"],
+  opponentIds: ["p2"],
+  expectedScore,
+  actualScore,
+});
+
+describe("collectPredictions", () => {
+  test("should predict with ratings from before each match", () => {
+    const matches: MatchRecord[] = [
+      {
+        id: "m1",
+        type: MatchType.DUEL,
+        playerId: "alice",
+        opponentId: "bob",
+        outcome: DuelOutcome.WIN,
+      },
+      {
+        id: "m2",
+        type: MatchType.DUEL,
+        playerId: "bob",
+        opponentId: "alice",
+        outcome: DuelOutcome.DRAW,
+        homePlayerId: "bob",
+      },
+    ];
+
+    const predictions = collectPredictions(matches, [], {
+      kFactor: 20,
+      homeAdvantage: 50,
+    });
+
+    expect(predictions).toEqual([
+      {
+        matchId: "m1",
+        type: MatchType.DUEL,
+        playerIds: ["alice"],
+        opponentIds: ["bob"],
+        expectedScore: 0.5,
+        actualScore: 1,
+      },
+      {
+        matchId: "m2",
+        type: MatchType.DUEL,
+        playerIds: ["bob"],
+        opponentIds: ["alice"],
+        expectedScore: calculateExpectedScore(1190 + 50, 1210),
+        actualScore: 0.5,
+      },
+    ]);
+  });
+
+  test("should predict each free-for-all and team pairing once", () => {
+    const matches: MatchRecord[] = [
+      {
+        id: "ffa",
+        type: MatchType.FREE_FOR_ALL,
+        scores: [
+          { playerId: "a", score: 3 },
+          { playerId: "b", score: 2 },
+          { playerId: "c", score: 2 },
+        ],
+      },
+      {
+        id: "team",
+        type: MatchType.TEAM,
+        teams: [
+          { playerIds: ["a", "b"], score: 0 },
+          { playerIds: ["c", "d"], score: 1 },
+        ],
+      },
+    ];
+
+    const predictions = collectPredictions(matches, [
+      { id: "a", rating: 1400 },
+      { id: "d", rating: 1000 },
+    ]);
+
+    expect(
+      predictions.map((p) => [p.playerIds, p.opponentIds, p.actualScore]),
+    ).toEqual([
+      [["a"], ["b"], 1],
+      [["a"], ["c"], 1],
+      [["b"], ["c"], 0.5],
+      [["a", "b"], ["c", "d"], 0],
+    ]);
+    expect(predictions[0].expectedScore).toBeCloseTo(
+      calculateExpectedScore(1400, 1200),
+    );
+  });
+});
+
+describe("prediction metrics", () => {
+  const predictions = [
+    prediction(0.8, 1),
+    prediction(0.6, 0),
+    prediction(0.3, 0),
+    prediction(0.5, 1),
+    prediction(0.7, 0.5),
+  ];
+
+  test("should calculate Brier score", () => {
+    expect(calculateBrierScore(predictions)).toBeCloseTo(
+      (0.04 + 0.36 + 0.09 + 0.25 + 0.04) / 5,
+    );
+  });
+
+  test("should calculate log-loss", () => {
+    expect(calculateLogLoss(predictions)).toBeCloseTo(
+      -(
+        Math.log(0.8) +
+        Math.log(0.4) +
+        Math.log(0.7) +
+        Math.log(0.5) +
+        0.5 * Math.log(0.7) +
+        0.5 * Math.log(0.3)
+      ) / 5,
+    );
+    expect(Number.isFinite(calculateLogLoss([prediction(1, 0)]))).toBe(true);
+  });
+
+  test("should calculate accuracy over decisive results", () => {
+    // Correct, wrong, correct, even
+    expect(calculateAccuracy(predictions)).toBe(2.5 / 4);
+  });
+
+  test("should group predictions into calibration bins", () => {
+    const calibration = calculateCalibration(
+      [...predictions, prediction(1, 1)],
+      5,
+    );
+
+    expect(calibration.map((bin) => bin.count)).toEqual([1, 1, 2, 2]);
+    expect(calibration[2].minExpectedScore).toBe(0.6);
+    expect(calibration[2].maxExpectedScore).toBe(0.8);
+    expect(calibration[2].meanExpectedScore).toBeCloseTo(0.65);
+    expect(calibration[2].meanActualScore).toBe(0.25);
+    expect(calibration[3].maxExpectedScore).toBe(1);
+  });
+
+  test("should throw error for an invalid calibration bin count", () => {
+    expect(() => calculateCalibration(predictions, 0)).toThrow(
+      "Calibration bin count must be a positive integer",
+    );
+    expect(() => calculateCalibration(predictions, 2.5)).toThrow(
+      "Calibration bin count must be a positive integer",
+    );
+  });
+});
+
+describe("evaluateRatings", () => {
+  test("should report all metrics for a match log", () => {
+    const matches: MatchRecord[] = [
+      {
+        id: "m1",
+        type: MatchType.DUEL,
+        playerId: "alice",
+        opponentId: "bob",
+        outcome: DuelOutcome.WIN,
+      },
+      {
+        id: "m2",
+        type: MatchType.DUEL,
+        playerId: "alice",
+        opponentId: "bob",
+        outcome: DuelOutcome.WIN,
+      },
+    ];
+
+    const report = evaluateRatings(matches, [], { calibrationBins: 2 });
+
+    expect(report.predictions).toHaveLength(2);
+    expect(report.brierScore).toBe(calculateBrierScore(report.predictions));
+    expect(report.logLoss).toBe(calculateLogLoss(report.predictions));
+    expect(report.accuracy).toBe(0.75);
+    expect(report.calibration.map((bin) => bin.count)).toEqual([2]);
+  });
+
+  test("should throw error without matches", () => {
+    expect(() => evaluateRatings([])).toThrow("At least 1 match is required");
+  });
+
+  test("should throw error for an invalid duel outcome", () => {
+    expect(() =>
+      collectPredictions([
+        {
+          id: "m1",
+          type: MatchType.DUEL,
+          playerId: "alice",
+          opponentId: "bob",
+          outcome: 2,
+        },
+      ]),
+    ).toThrow("Actual score must be between 0 and 1");
+  });
+});
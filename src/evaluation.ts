@@ -0,0 +1,267 @@
+import {
+  calculateActualScore,
+  calculateExpectedScore,
+  calculatePairwiseActualScore,
+  MatchType,
+  type Options,
+  type Player,
+} from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+import { replayMatches, type LedgerOptions, type MatchRecord } from "./ledger";
+
+const DEFAULT_CALIBRATION_BINS = 10;
+/** Keeps log-loss finite when a prediction is certain and wrong */
+const MINIMUM_PROBABILITY = 1e-15;
+
+/** Pre-match expected score of one side of a pairing against the other */
+export interface Prediction {
+  matchId: string;
+  type: MatchType;
+  playerIds: string[];
+  opponentIds: string[];
+  expectedScore: number;
+  actualScore: number;
+}
+
+export interface CalibrationBin {
+  /** Inclusive lower bound of the expected scores in this bin */
+  minExpectedScore: number;
+  /** Exclusive upper bound, inclusive for the last bin */
+  maxExpectedScore: number;
+  count: number;
+  meanExpectedScore: number;
+  meanActualScore: number;
+}
+
+export interface EvaluationOptions extends LedgerOptions {
+  /** default: 10 */
+  calibrationBins?: number;
+}
+
+export interface EvaluationReport {
+  predictions: Prediction[];
+  brierScore: number;
+  logLoss: number;
+  accuracy: number;
+  /** Non-empty bins only */
+  calibration: CalibrationBin[];
+}
+
+const predictMatch = (
+  match: MatchRecord,
+  lookup: (playerId: string) => Player,
+  options: Options,
+): Prediction[] => {
+  const createPrediction = (
+    playerIds: string[],
+    opponentIds: string[],
+    expectedScore: number,
+    actualScore: number,
+  ): Prediction => ({
+    matchId: match.id,
+    type: match.type,
+    playerIds,
+    opponentIds,
+    expectedScore,
+    actualScore,
+  });
+  const predictions: Prediction[] = [];
+
+  switch (match.type) {
+    case MatchType.DUEL: {
+      const player = lookup(match.playerId);
+      const opponent = lookup(match.opponentId);
+      predictions.push(
+        createPrediction(
+          [player.id],
+          [opponent.id],
+          calculateExpectedScore(
+            { ...player, home: player.id === match.homePlayerId },
+            { ...opponent, home: opponent.id === match.homePlayerId },
+            options,
+          ),
+          calculateActualScore(match.outcome),
+        ),
+      );
+      break;
+    }
+    case MatchType.FREE_FOR_ALL:
+      match.scores.forEach((entry, i) => {
+        for (const other of match.scores.slice(i + 1)) {
+          predictions.push(
+            createPrediction(
+              [entry.playerId],
+              [other.playerId],
+              calculateExpectedScore(
+                lookup(entry.playerId),
+                lookup(other.playerId),
+                options,
+              ),
+              calculatePairwiseActualScore(entry.score, other.score),
+            ),
+          );
+        }
+      });
+      break;
+    case MatchType.TEAM: {
+      const teams = match.teams.map((team) => ({
+        players: team.playerIds.map(lookup),
+        home: team.home,
+      }));
+      match.teams.forEach((team, i) => {
+        match.teams.slice(i + 1).forEach((other, offset) => {
+          predictions.push(
+            createPrediction(
+              team.playerIds,
+              other.playerIds,
+              calculateExpectedScore(teams[i], teams[i + 1 + offset], options),
+              calculatePairwiseActualScore(team.score, other.score),
+            ),
+          );
+        });
+      });
+      break;
+    }
+  }
+  return predictions;
+};
+
+/**
+ * Replays matches like `replayMatches` and records the expected score of each
+ * pairing with the ratings before the match: one prediction per duel, per
+ * pair of free-for-all players and per pair of teams.
+ */
+export const collectPredictions = (
+  matches: MatchRecord[],
+  initialPlayers: Player[] = [],
+  options: LedgerOptions = {},
+): Prediction[] => {
+  const initialPlayersById = new Map(
+    initialPlayers.map((player) => [player.id, player]),
+  );
+  const { deltas } = replayMatches(matches, initialPlayers, options);
+
+  return matches.flatMap((match, index) => {
+    const delta = deltas[index];
+    const lookup = (playerId: string): Player => {
+      const change = delta.changes.find((c) => c.id === playerId);
+      if (!change) {
+        throw new EloNotFoundError(
+          EloErrorCode.PLAYER_NOT_FOUND,
+          `Player with id ${playerId} not found`,
+        );
+      }
+      return {
+        ...initialPlayersById.get(playerId),
+        id: playerId,
+        rating: change.oldRating,
+      };
+    };
+    return predictMatch(match, lookup, options);
+  });
+};
+
+export const calculateBrierScore = (predictions: Prediction[]): number =>
+  predictions.reduce(
+    (sum, { expectedScore, actualScore }) =>
+      sum + Math.pow(expectedScore - actualScore, 2),
+    0,
+  ) / predictions.length;
+
+export const calculateLogLoss = (predictions: Prediction[]): number =>
+  predictions.reduce((sum, { expectedScore, actualScore }) => {
+    const probability = Math.min(
+      Math.max(expectedScore, MINIMUM_PROBABILITY),
+      1 - MINIMUM_PROBABILITY,
+    );
+    return (
+      sum -
+      actualScore * Math.log(probability) -
+      (1 - actualScore) * Math.log(1 - probability)
+    );
+  }, 0) / predictions.length;
+
+/**
+ * Share of decisive results won by the favourite, with even predictions
+ * counting as half. NaN when every result is a draw.
+ */
+export const calculateAccuracy = (predictions: Prediction[]): number => {
+  const decisive = predictions.filter(({ actualScore }) => actualScore !== 0.5);
+  const correct = decisive.reduce((sum, { expectedScore, actualScore }) => {
+    if (expectedScore === 0.5) return sum + 0.5;
+    return sum + (expectedScore > 0.5 === actualScore > 0.5 ? 1 : 0);
+  }, 0);
+  return correct / decisive.length;
+};
+
+/** Groups predictions into equal-width bins of expected score */
+export const calculateCalibration = (
+  predictions: Prediction[],
+  binCount: number = DEFAULT_CALIBRATION_BINS,
+): CalibrationBin[] => {
+  if (!Number.isInteger(binCount) || binCount < 1) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Calibration bin count must be a positive integer",
+    );
+  }
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    minExpectedScore: i / binCount,
+    maxExpectedScore: (i + 1) / binCount,
+    count: 0,
+    totalExpectedScore: 0,
+    totalActualScore: 0,
+  }));
+  for (const { expectedScore, actualScore } of predictions) {
+    const bin =
+      bins[Math.min(Math.floor(expectedScore * binCount), binCount - 1)];
+    bin.count += 1;
+    bin.totalExpectedScore += expectedScore;
+    bin.totalActualScore += actualScore;
+  }
+
+  return bins
+    .filter((bin) => bin.count > 0)
+    .map(
+      ({
+        minExpectedScore,
+        maxExpectedScore,
+        count,
+        totalExpectedScore,
+        totalActualScore,
+      }) => ({
+        minExpectedScore,
+        maxExpectedScore,
+        count,
+        meanExpectedScore: totalExpectedScore / count,
+        meanActualScore: totalActualScore / count,
+      }),
+    );
+};
+
+export const evaluateRatings = (
+  matches: MatchRecord[],
+  initialPlayers: Player[] = [],
+  options: EvaluationOptions = {},
+): EvaluationReport => {
+  if (matches.length === 0) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_MATCHES,
+      "At least 1 match is required",
+    );
+  }
+  const { calibrationBins, ...ledgerOptions } = options;
+  const predictions = collectPredictions(
+    matches,
+    initialPlayers,
+    ledgerOptions,
+  );
+
+  return {
+    predictions,
+    brierScore: calculateBrierScore(predictions),
+    logLoss: calculateLogLoss(predictions),
+    accuracy: calculateAccuracy(predictions),
+    calibration: calculateCalibration(predictions, calibrationBins),
+  };
+};
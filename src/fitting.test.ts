@@ -0,0 +1,108 @@
+import {
+  DuelOutcome,
+  fitParameters,
+  LossFunction,
+  MatchType,
+  type MatchRecord,
+} from "./index";
+
+const duel = (
+  id: string,
+  playerId: string,
+  opponentId: string,
+  outcome: DuelOutcome = DuelOutcome.WIN,
+  homePlayerId?: string,
+): MatchRecord => ({
+  id,
+  type: MatchType.DUEL,
+  playerId,
+  opponentId,
+  outcome,
+  homePlayerId,
+});
+
+const repeat = (
+  count: number,
+  createMatch: (index: number) => MatchRecord,
+): MatchRecord[] => Array.from({ length: count }, (_, i) => createMatch(i));
+
+describe("fitParameters", () => {
+  test("should prefer large K-factors when the stronger player always wins", () => {
+    const matches = repeat(30, (i) =>
+      i % 2 === 0
+        ? duel(`m${i}`, "alice", "bob")
+        : duel(`m${i}`, "bob", "carol"),
+    );
+
+    const result = fitParameters(matches, [], { kFactors: [10, 30, 60] });
+
+    expect(result.best.parameters.kFactor).toBe(60);
+  });
+
+  test("should prefer small K-factors when results are noise", () => {
+    const matches = repeat(30, (i) =>
+      i % 2 === 0
+        ? duel(`m${i}`, "alice", "bob")
+        : duel(`m${i}`, "bob", "alice"),
+    );
+
+    const result = fitParameters(matches, [], { kFactors: [10, 30, 60] });
+
+    expect(result.best.parameters.kFactor).toBe(10);
+  });
+
+  test("should fit home advantage", () => {
+    const matches = repeat(40, (i) =>
+      i % 2 === 0
+        ? duel(`m${i}`, "alice", "bob", DuelOutcome.WIN, "alice")
+        : duel(`m${i}`, "bob", "alice", DuelOutcome.WIN, "bob"),
+    );
+
+    const result = fitParameters(matches, [], {
+      kFactors: [10],
+      homeAdvantages: [0, 100, 300],
+    });
+
+    expect(result.best.parameters.homeAdvantage).toBe(300);
+  });
+
+  test("should return the loss of every combination", () => {
+    const matches = [duel("m1", "alice", "bob"), duel("m2", "bob", "carol")];
+
+    const result = fitParameters(matches, [], {
+      kFactors: [10, 20],
+      homeAdvantages: [0, 50],
+      scaleDivisors: [200, 400, 800],
+    });
+
+    expect(result.curve).toHaveLength(12);
+    expect(result.curve[0].parameters).toEqual({
+      kFactor: 10,
+      homeAdvantage: 0,
+      scale: { divisor: 200 },
+    });
+    expect(result.best.loss).toBe(
+      Math.min(...result.curve.map((evaluation) => evaluation.loss)),
+    );
+  });
+
+  test("should score with log-loss or Brier score", () => {
+    const matches = [duel("m1", "alice", "bob"), duel("m2", "alice", "bob")];
+    const options = { kFactors: [40] };
+
+    const logLoss = fitParameters(matches, [], options).best.loss;
+    const brier = fitParameters(matches, [], {
+      ...options,
+      loss: LossFunction.BRIER,
+    }).best.loss;
+
+    // First match at equal ratings: ln 2 and 0.25; second with alice 40 ahead
+    const expectedSecond = 1 / (1 + Math.pow(10, -40 / 400));
+    expect(logLoss).toBeCloseTo((Math.log(2) - Math.log(expectedSecond)) / 2);
+    expect(brier).toBeCloseTo((0.25 + Math.pow(1 - expectedSecond, 2)) / 2);
+  });
+
+  test("should throw error without matches", () => {
+    expect(() => fitParameters([])).toThrow("At least 1 match is required");
+  });
+});
@@ -0,0 +1,99 @@
+import type { Player, RatingScale } from "./elo";
+import { EloErrorCode, EloValidationError } from "./errors";
+import {
+  calculateBrierScore,
+  calculateLogLoss,
+  collectPredictions,
+} from "./evaluation";
+import type { LedgerOptions, MatchRecord } from "./ledger";
+
+const DEFAULT_K_FACTOR_CANDIDATES = [5, 10, 15, 20, 25, 30, 35, 40, 50, 60];
+
+export enum LossFunction {
+  /** Mean negative log-likelihood of the actual scores */
+  LOG_LOSS = "LOG_LOSS",
+  /** Mean squared difference between expected and actual scores */
+  BRIER = "BRIER",
+}
+
+export interface FittingOptions extends LedgerOptions {
+  /** default: 5 to 60 */
+  kFactors?: number[];
+  /** default: `homeAdvantage`, or 0 */
+  homeAdvantages?: number[];
+  /** Replaces `scale.divisor`, default: `scale` as given */
+  scaleDivisors?: number[];
+  /** default: LOG_LOSS */
+  loss?: LossFunction;
+}
+
+export interface FittingParameters {
+  kFactor: number;
+  homeAdvantage: number;
+  scale: RatingScale;
+}
+
+export interface FittingEvaluation {
+  parameters: FittingParameters;
+  loss: number;
+}
+
+export interface FittingResult {
+  best: FittingEvaluation;
+  /** Every evaluated parameter combination, in search order */
+  curve: FittingEvaluation[];
+}
+
+/**
+ * Grid search over K-factor, home advantage and scale divisor. Each
+ * combination replays the match log from `initialPlayers` and is scored by
+ * the loss of the pre-match expected scores.
+ */
+export const fitParameters = (
+  matches: MatchRecord[],
+  initialPlayers: Player[] = [],
+  options: FittingOptions = {},
+): FittingResult => {
+  if (matches.length === 0) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_MATCHES,
+      "At least 1 match is required",
+    );
+  }
+
+  const {
+    kFactors = DEFAULT_K_FACTOR_CANDIDATES,
+    homeAdvantages = [options.homeAdvantage ?? 0],
+    scaleDivisors,
+    loss = LossFunction.LOG_LOSS,
+    ...ledgerOptions
+  } = options;
+  const scales: RatingScale[] = scaleDivisors
+    ? scaleDivisors.map((divisor) => ({ ...options.scale, divisor }))
+    : [options.scale ?? {}];
+
+  const curve: FittingEvaluation[] = [];
+  for (const kFactor of kFactors) {
+    for (const homeAdvantage of homeAdvantages) {
+      for (const scale of scales) {
+        const parameters = { kFactor, homeAdvantage, scale };
+        const predictions = collectPredictions(matches, initialPlayers, {
+          ...ledgerOptions,
+          ...parameters,
+        });
+        curve.push({
+          parameters,
+          loss:
+            loss === LossFunction.BRIER
+              ? calculateBrierScore(predictions)
+              : calculateLogLoss(predictions),
+        });
+      }
+    }
+  }
+
+  const best = curve.reduce((bestSoFar, evaluation) =>
+    evaluation.loss < bestSoFar.loss ? evaluation : bestSoFar,
+  );
+  return { best, curve };
+};
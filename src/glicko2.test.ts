@@ -0,0 +1,198 @@
+import {
+  calculateGlickoDuel,
+  calculateGlickoFreeForAll,
+  calculateGlickoPlayerPeriod,
+  calculateGlickoRatingPeriod,
+  createGlickoPlayer,
+  type GlickoPlayer,
+} from "./index";
+
+describe("calculateGlickoPlayerPeriod", () => {
+  test("should reproduce the example from Glickman's Glicko-2 paper", () => {
+    const player: GlickoPlayer = {
+      id: "player",
+      rating: 1500,
+      ratingDeviation: 200,
+      volatility: 0.06,
+    };
+    const games = [
+      {
+        opponent: {
+          id: "o1",
+          rating: 1400,
+          ratingDeviation: 30,
+          volatility: 0.06,
+        },
+        score: 1,
+      },
+      {
+        opponent: {
+          id: "o2",
+          rating: 1550,
+          ratingDeviation: 100,
+          volatility: 0.06,
+        },
+        score: 0,
+      },
+      {
+        opponent: {
+          id: "o3",
+          rating: 1700,
+          ratingDeviation: 300,
+          volatility: 0.06,
+        },
+        score: 0,
+      },
+    ];
+
+    const result = calculateGlickoPlayerPeriod(player, games, { tau: 0.5 });
+
+    expect(result.id).toBe("player");
+    expect(result.newRating).toBeCloseTo(1464.06, 1);
+    expect(result.newRatingDeviation).toBeCloseTo(151.52, 1);
+    expect(result.newVolatility).toBeCloseTo(0.059996, 5);
+  });
+
+  test("should only increase rating deviation without games", () => {
+    const player: GlickoPlayer = {
+      id: "idle",
+      rating: 1700,
+      ratingDeviation: 50,
+      volatility: 0.06,
+    };
+
+    const result = calculateGlickoPlayerPeriod(player, []);
+
+    expect(result.newRating).toBe(player.rating);
+    expect(result.newVolatility).toBe(player.volatility);
+    expect(result.newRatingDeviation).toBeGreaterThan(player.ratingDeviation);
+  });
+
+  test("should throw error for game score outside 0 to 1", () => {
+    const player = createGlickoPlayer("p1");
+    const opponent = createGlickoPlayer("p2");
+    const expectedErrorMessage = "Game score must be between 0 and 1";
+
+    expect(() =>
+      calculateGlickoPlayerPeriod(player, [{ opponent, score: 2 }]),
+    ).toThrow(expectedErrorMessage);
+  });
+
+  test("should throw error for a volatility of 0", () => {
+    const player = { ...createGlickoPlayer("p1"), volatility: 0 };
+    const opponent = createGlickoPlayer("p2");
+
+    expect(() =>
+      calculateGlickoPlayerPeriod(player, [{ opponent, score: 1 }]),
+    ).toThrow("Player with id p1 must have a finite, positive volatility");
+  });
+});
+
+describe("calculateGlickoDuel", () => {
+  test("should move winner up and loser down", () => {
+    const winner = createGlickoPlayer("winner");
+    const loser = createGlickoPlayer("loser");
+
+    const results = calculateGlickoDuel(winner, loser);
+    const winnerResult = results.find((r) => r.id === "winner")!;
+    const loserResult = results.find((r) => r.id === "loser")!;
+
+    expect(winnerResult.newRating).toBeGreaterThan(winner.rating);
+    expect(loserResult.newRating).toBeLessThan(loser.rating);
+    expect(winnerResult.newRatingDeviation).toBeLessThan(
+      winner.ratingDeviation,
+    );
+    expect(loserResult.newRatingDeviation).toBeLessThan(loser.ratingDeviation);
+  });
+
+  test("should move uncertain players more than established players", () => {
+    const newPlayer = createGlickoPlayer("new", 1500);
+    const establishedPlayer: GlickoPlayer = {
+      id: "established",
+      rating: 1500,
+      ratingDeviation: 50,
+      volatility: 0.06,
+    };
+
+    const results = calculateGlickoDuel(newPlayer, establishedPlayer);
+    const newPlayerGain =
+      results.find((r) => r.id === "new")!.newRating - newPlayer.rating;
+    const establishedPlayerLoss =
+      establishedPlayer.rating -
+      results.find((r) => r.id === "established")!.newRating;
+
+    expect(newPlayerGain).toBeGreaterThan(establishedPlayerLoss);
+  });
+});
+
+describe("calculateGlickoFreeForAll", () => {
+  test("should rank rating changes by placement", () => {
+    const results = calculateGlickoFreeForAll([
+      { player: createGlickoPlayer("first"), score: 100 },
+      { player: createGlickoPlayer("second"), score: 75 },
+      { player: createGlickoPlayer("third"), score: 50 },
+    ]);
+
+    const first = results.find((r) => r.id === "first")!;
+    const second = results.find((r) => r.id === "second")!;
+    const third = results.find((r) => r.id === "third")!;
+
+    expect(first.newRating).toBeGreaterThan(1500);
+    expect(second.newRating).toBeCloseTo(1500);
+    expect(third.newRating).toBeLessThan(1500);
+  });
+
+  test("should give tied players the same result", () => {
+    const results = calculateGlickoFreeForAll([
+      { player: createGlickoPlayer("p1"), score: 10 },
+      { player: createGlickoPlayer("p2"), score: 10 },
+      { player: createGlickoPlayer("p3"), score: 5 },
+    ]);
+
+    const p1 = results.find((r) => r.id === "p1")!;
+    const p2 = results.find((r) => r.id === "p2")!;
+
+    expect(p1.newRating).toBeCloseTo(p2.newRating);
+    expect(p1.newRatingDeviation).toBeCloseTo(p2.newRatingDeviation);
+  });
+});
+
+describe("calculateGlickoRatingPeriod", () => {
+  test("should rate all games in the period against pre-period ratings", () => {
+    const alice = createGlickoPlayer("alice");
+    const bob = createGlickoPlayer("bob");
+    const carol = createGlickoPlayer("carol");
+
+    const results = calculateGlickoRatingPeriod(
+      [alice, bob, carol],
+      [
+        { playerId: "alice", opponentId: "bob", score: 1 },
+        { playerId: "alice", opponentId: "bob", score: 0.5 },
+      ],
+    );
+
+    const aliceResult = results.find((r) => r.id === "alice")!;
+    const bobResult = results.find((r) => r.id === "bob")!;
+    const carolResult = results.find((r) => r.id === "carol")!;
+
+    expect(results).toHaveLength(3);
+    expect(aliceResult.newRating - 1500).toBeCloseTo(
+      1500 - bobResult.newRating,
+    );
+    expect(carolResult.newRating).toBe(carol.rating);
+    expect(carolResult.newRatingDeviation).toBeGreaterThan(
+      carol.ratingDeviation,
+    );
+  });
+
+  test("should throw error for unknown players", () => {
+    const expectedErrorMessage = "Player with id ghost not found";
+
+    expect(() =>
+      calculateGlickoRatingPeriod(
+        [createGlickoPlayer("p1")],
+        [{ playerId: "p1", opponentId: "ghost", score: 1 }],
+      ),
+    ).toThrow(expectedErrorMessage);
+  });
+});
@@ -0,0 +1,318 @@
+import { calculatePairwiseActualScore } from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+import {
+  validateRating,
+  validateScore,
+  validateUncertainty,
+  validateUniqueIds,
+} from "./validation";
+
+const DEFAULT_RATING = 1500;
+const DEFAULT_RATING_DEVIATION = 350;
+const DEFAULT_VOLATILITY = 0.06;
+const DEFAULT_TAU = 0.5;
+const DEFAULT_CONVERGENCE_TOLERANCE = 0.000001;
+
+/** Conversion factor between the Glicko rating scale and the Glicko-2 scale (400 / ln 10) */
+const GLICKO2_SCALE = 173.7178;
+
+export interface GlickoPlayer {
+  id: string;
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+}
+
+export interface GlickoMatchResultItem {
+  id: string;
+  newRating: number;
+  newRatingDeviation: number;
+  newVolatility: number;
+}
+
+export type GlickoMatchResult = GlickoMatchResultItem[];
+
+export interface GlickoOptions {
+  /** System constant constraining volatility change over time, typically between 0.3 and 1.2 */
+  tau?: number;
+  convergenceTolerance?: number;
+}
+
+export interface GlickoGame {
+  opponent: GlickoPlayer;
+  /** 1 for a win, 0.5 for a draw and 0 for a loss */
+  score: number;
+}
+
+export interface GlickoPlayerWithScore {
+  player: GlickoPlayer;
+  score: number;
+}
+
+export interface GlickoPeriodGame {
+  playerId: string;
+  opponentId: string;
+  /** Score from the perspective of `playerId`: 1 for a win, 0.5 for a draw and 0 for a loss */
+  score: number;
+}
+
+interface Glicko2Scale {
+  mu: number;
+  phi: number;
+}
+
+const validateGlickoPlayer = (player: GlickoPlayer): void => {
+  validateRating(player.rating, player.id);
+  validateUncertainty(player.ratingDeviation, player.id, "rating deviation");
+  // The volatility update works from ln(sigma^2), so 0 would never change again
+  if (!Number.isFinite(player.volatility) || player.volatility <= 0) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_RATING,
+      `Player with id ${player.id} must have a finite, positive volatility`,
+    );
+  }
+};
+
+const toGlicko2Scale = (player: GlickoPlayer): Glicko2Scale => ({
+  mu: (player.rating - DEFAULT_RATING) / GLICKO2_SCALE,
+  phi: player.ratingDeviation / GLICKO2_SCALE,
+});
+
+const calculateImpactFactor = (phi: number): number =>
+  1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const calculateGlickoExpectedScore = (
+  mu: number,
+  opponentMu: number,
+  opponentImpact: number,
+): number => 1 / (1 + Math.exp(-opponentImpact * (mu - opponentMu)));
+
+const validateGameScore = (score: number): void => {
+  if (!Number.isFinite(score) || score < 0 || score > 1) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_SCORE,
+      "Game score must be between 0 and 1",
+    );
+  }
+};
+
+/**
+ * Solves for the new volatility using the Illinois variant of regula falsi,
+ * as described in step 5 of Glickman's Glicko-2 paper.
+ */
+const calculateNewVolatility = (
+  phi: number,
+  volatility: number,
+  variance: number,
+  delta: number,
+  tau: number,
+  tolerance: number,
+): number => {
+  const a = Math.log(volatility * volatility);
+  const deltaSquared = delta * delta;
+  const phiSquared = phi * phi;
+
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const denominator = phiSquared + variance + ex;
+    return (
+      (ex * (deltaSquared - phiSquared - variance - ex)) /
+        (2 * denominator * denominator) -
+      (x - a) / (tau * tau)
+    );
+  };
+
+  let lower = a;
+  let upper: number;
+  if (deltaSquared > phiSquared + variance) {
+    upper = Math.log(deltaSquared - phiSquared - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) {
+      k++;
+    }
+    upper = a - k * tau;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > tolerance) {
+    const candidate = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fCandidate = f(candidate);
+    if (fCandidate * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower = fLower / 2;
+    }
+    upper = candidate;
+    fUpper = fCandidate;
+  }
+
+  return Math.exp(lower / 2);
+};
+
+export const createGlickoPlayer = (
+  id: string,
+  rating: number = DEFAULT_RATING,
+): GlickoPlayer => ({
+  id,
+  rating,
+  ratingDeviation: DEFAULT_RATING_DEVIATION,
+  volatility: DEFAULT_VOLATILITY,
+});
+
+/**
+ * Updates a single player over one rating period. A player without games keeps
+ * rating and volatility while the rating deviation grows.
+ */
+export const calculateGlickoPlayerPeriod = (
+  player: GlickoPlayer,
+  games: GlickoGame[],
+  options: GlickoOptions = {},
+): GlickoMatchResultItem => {
+  validateGlickoPlayer(player);
+  games.forEach((game) => validateGlickoPlayer(game.opponent));
+
+  const tau = options.tau ?? DEFAULT_TAU;
+  const tolerance =
+    options.convergenceTolerance ?? DEFAULT_CONVERGENCE_TOLERANCE;
+  const { mu, phi } = toGlicko2Scale(player);
+
+  if (games.length === 0) {
+    const inactivePhi = Math.sqrt(
+      phi * phi + player.volatility * player.volatility,
+    );
+    return {
+      id: player.id,
+      newRating: player.rating,
+      newRatingDeviation: inactivePhi * GLICKO2_SCALE,
+      newVolatility: player.volatility,
+    };
+  }
+
+  let inverseVariance = 0;
+  let scoreSurplus = 0;
+
+  for (const game of games) {
+    validateGameScore(game.score);
+
+    const opponent = toGlicko2Scale(game.opponent);
+    const impact = calculateImpactFactor(opponent.phi);
+    const expected = calculateGlickoExpectedScore(mu, opponent.mu, impact);
+
+    inverseVariance += impact * impact * expected * (1 - expected);
+    scoreSurplus += impact * (game.score - expected);
+  }
+
+  const variance = 1 / inverseVariance;
+  const delta = variance * scoreSurplus;
+
+  const newVolatility = calculateNewVolatility(
+    phi,
+    player.volatility,
+    variance,
+    delta,
+    tau,
+    tolerance,
+  );
+  const preRatingPeriodPhi = Math.sqrt(
+    phi * phi + newVolatility * newVolatility,
+  );
+  const newPhi =
+    1 / Math.sqrt(1 / (preRatingPeriodPhi * preRatingPeriodPhi) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * scoreSurplus;
+
+  return {
+    id: player.id,
+    newRating: newMu * GLICKO2_SCALE + DEFAULT_RATING,
+    newRatingDeviation: newPhi * GLICKO2_SCALE,
+    newVolatility,
+  };
+};
+
+/**
+ * Updates every player over one rating period. All games in the period are
+ * rated against the opponents' pre-period values.
+ */
+export const calculateGlickoRatingPeriod = (
+  players: GlickoPlayer[],
+  games: GlickoPeriodGame[],
+  options: GlickoOptions = {},
+): GlickoMatchResult => {
+  validateUniqueIds(players.map((player) => player.id));
+  const playersById = new Map(players.map((player) => [player.id, player]));
+  const gamesByPlayer = new Map<string, GlickoGame[]>();
+
+  const findPlayer = (playerId: string): GlickoPlayer => {
+    const player = playersById.get(playerId);
+    if (!player) {
+      throw new EloNotFoundError(
+        EloErrorCode.PLAYER_NOT_FOUND,
+        `Player with id ${playerId} not found`,
+      );
+    }
+    return player;
+  };
+
+  const addGame = (playerId: string, game: GlickoGame): void => {
+    gamesByPlayer.set(playerId, [...(gamesByPlayer.get(playerId) ?? []), game]);
+  };
+
+  for (const game of games) {
+    validateGameScore(game.score);
+
+    validateUniqueIds([game.playerId, game.opponentId]);
+    const player = findPlayer(game.playerId);
+    const opponent = findPlayer(game.opponentId);
+
+    addGame(player.id, { opponent, score: game.score });
+    addGame(opponent.id, { opponent: player, score: 1 - game.score });
+  }
+
+  return players.map((player) =>
+    calculateGlickoPlayerPeriod(
+      player,
+      gamesByPlayer.get(player.id) ?? [],
+      options,
+    ),
+  );
+};
+
+export const calculateGlickoDuel = (
+  winner: GlickoPlayer,
+  loser: GlickoPlayer,
+  options: GlickoOptions = {},
+): GlickoMatchResult => {
+  return calculateGlickoRatingPeriod(
+    [winner, loser],
+    [{ playerId: winner.id, opponentId: loser.id, score: 1 }],
+    options,
+  );
+};
+
+export const calculateGlickoFreeForAll = (
+  playersWithScores: GlickoPlayerWithScore[],
+  options: GlickoOptions = {},
+): GlickoMatchResult => {
+  validateUniqueIds(playersWithScores.map(({ player }) => player.id));
+  playersWithScores.forEach(({ score }) => validateScore(score));
+
+  return playersWithScores.map((playerScore) => {
+    const games: GlickoGame[] = [];
+
+    for (const otherPlayerScore of playersWithScores) {
+      if (playerScore.player.id === otherPlayerScore.player.id) continue;
+
+      games.push({
+        opponent: otherPlayerScore.player,
+        score: calculatePairwiseActualScore(
+          playerScore.score,
+          otherPlayerScore.score,
+        ),
+      });
+    }
+
+    return calculateGlickoPlayerPeriod(playerScore.player, games, options);
+  });
+};
@@ -1,10 +1,18 @@
 import {
+  calculateActualScore,
   calculateDuel,
+  calculateDuelOutcome,
   calculateFreeForAll,
   calculateTeamMatch,
   calculateMultiTeamMatch,
   calculateExpectedScore,
+  calculatePairwiseActualScore,
+  calculateTeamStrength,
   CalculationStrategy,
+  DuelOutcome,
+  ExpectedScoreModel,
+  RoundingMode,
+  TeamStrengthModel,
   type Player,
   type Team,
 } from "./index";
@@ -99,6 +107,30 @@ describe("calculateExpectedScore", () => {
   });
 });
 
+describe("actual scores", () => {
+  test("should convert duel outcomes and fractional scores", () => {
+    expect(calculateActualScore(DuelOutcome.WIN)).toBe(1);
+    expect(calculateActualScore(DuelOutcome.DRAW)).toBe(0.5);
+    expect(calculateActualScore(DuelOutcome.LOSS)).toBe(0);
+    expect(calculateActualScore(0.75)).toBe(0.75);
+    expect(() => calculateActualScore(-1)).toThrow(
+      "Actual score must be between 0 and 1",
+    );
+    expect(() => calculateActualScore(NaN)).toThrow(
+      "Actual score must be between 0 and 1",
+    );
+  });
+
+  test("should compare pairwise scores", () => {
+    expect(calculatePairwiseActualScore(3, 1)).toBe(1);
+    expect(calculatePairwiseActualScore(2, 2)).toBe(0.5);
+    expect(calculatePairwiseActualScore(1, 3)).toBe(0);
+    expect(() => calculatePairwiseActualScore(1, NaN)).toThrow(
+      "Score must be a finite number",
+    );
+  });
+});
+
 describe("calculateDuel", () => {
   test("should calculate 1v1 match correctly", () => {
     const winner: Player = { id: "player1", rating: 1200 };
@@ -204,6 +236,134 @@ describe("calculateDuel", () => {
   });
 });
 
+describe("calculateDuelOutcome", () => {
+  test("should match calculateDuel for a win", () => {
+    const player: Player = { id: "player1", rating: 1200 };
+    const opponent: Player = { id: "player2", rating: 1320 };
+
+    expect(calculateDuelOutcome(player, opponent, DuelOutcome.WIN)).toEqual(
+      calculateDuel(player, opponent),
+    );
+  });
+
+  test("should mirror a win when the outcome is a loss", () => {
+    const player: Player = { id: "player1", rating: 1200 };
+    const opponent: Player = { id: "player2", rating: 1320 };
+
+    const results = calculateDuelOutcome(player, opponent, DuelOutcome.LOSS);
+    const mirroredResults = calculateDuel(opponent, player);
+
+    expect(results.find((r) => r.id === "player1")).toEqual(
+      mirroredResults.find((r) => r.id === "player1"),
+    );
+    expect(results.find((r) => r.id === "player2")).toEqual(
+      mirroredResults.find((r) => r.id === "player2"),
+    );
+  });
+
+  test("should not change ratings for a draw between identical players", () => {
+    const player: Player = { id: "p1", rating: 1500 };
+    const opponent: Player = { id: "p2", rating: 1500 };
+
+    const results = calculateDuelOutcome(player, opponent, DuelOutcome.DRAW);
+
+    expect(results.find((r) => r.id === "p1")!.newRating).toBe(player.rating);
+    expect(results.find((r) => r.id === "p2")!.newRating).toBe(opponent.rating);
+  });
+
+  test("should move lower rated player up on a draw", () => {
+    const lowerRatedPlayer: Player = { id: "low", rating: 1200 };
+    const higherRatedPlayer: Player = { id: "high", rating: 1400 };
+
+    const results = calculateDuelOutcome(
+      lowerRatedPlayer,
+      higherRatedPlayer,
+      DuelOutcome.DRAW,
+    );
+    const lowResult = results.find((r) => r.id === "low")!;
+    const highResult = results.find((r) => r.id === "high")!;
+
+    expect(lowResult.newRating).toBeGreaterThan(lowerRatedPlayer.rating);
+    expect(highResult.newRating).toBeLessThan(higherRatedPlayer.rating);
+
+    // Verify zero-sum property
+    const totalChange =
+      lowResult.newRating -
+      lowerRatedPlayer.rating +
+      (highResult.newRating - higherRatedPlayer.rating);
+    expect(Math.abs(totalChange)).toBeLessThanOrEqual(1); // Allow for rounding
+  });
+
+  test("should treat 0.5 actual score as a draw", () => {
+    const player: Player = { id: "p1", rating: 1250 };
+    const opponent: Player = { id: "p2", rating: 1400 };
+
+    expect(calculateDuelOutcome(player, opponent, 0.5)).toEqual(
+      calculateDuelOutcome(player, opponent, DuelOutcome.DRAW),
+    );
+  });
+
+  test("should handle fractional actual scores", () => {
+    const player: Player = { id: "p1", rating: 1200 };
+    const opponent: Player = { id: "p2", rating: 1200 };
+    const customKFactor = 40;
+    const expectedRatingGain = 10; // 40 * (0.75 - 0.5) = 10
+
+    const results = calculateDuelOutcome(player, opponent, 0.75, {
+      kFactor: customKFactor,
+    });
+
+    expect(results.find((r) => r.id === "p1")!.newRating).toBe(
+      player.rating + expectedRatingGain,
+    );
+    expect(results.find((r) => r.id === "p2")!.newRating).toBe(
+      opponent.rating - expectedRatingGain,
+    );
+  });
+
+  test("should scale rating change with actual score", () => {
+    const player: Player = { id: "p1", rating: 1300 };
+    const opponent: Player = { id: "p2", rating: 1250 };
+
+    const gainFor = (actualScore: number) =>
+      calculateDuelOutcome(player, opponent, actualScore).find(
+        (r) => r.id === "p1",
+      )!.newRating - player.rating;
+
+    expect(gainFor(0.25)).toBeLessThan(gainFor(0.5));
+    expect(gainFor(0.5)).toBeLessThan(gainFor(0.75));
+    expect(gainFor(0.75)).toBeLessThan(gainFor(1));
+  });
+
+  test("should handle zero k-factor", () => {
+    const player: Player = { id: "p1", rating: 1200 };
+    const opponent: Player = { id: "p2", rating: 1300 };
+
+    const results = calculateDuelOutcome(player, opponent, DuelOutcome.DRAW, {
+      kFactor: 0,
+    });
+
+    expect(results.find((r) => r.id === "p1")!.newRating).toBe(player.rating);
+    expect(results.find((r) => r.id === "p2")!.newRating).toBe(opponent.rating);
+  });
+
+  test("should throw error for actual score outside 0 to 1", () => {
+    const player: Player = { id: "p1", rating: 1200 };
+    const opponent: Player = { id: "p2", rating: 1200 };
+    const expectedErrorMessage = "Actual score must be between 0 and 1";
+
+    expect(() => calculateDuelOutcome(player, opponent, 1.5)).toThrow(
+      expectedErrorMessage,
+    );
+    expect(() => calculateDuelOutcome(player, opponent, -0.25)).toThrow(
+      expectedErrorMessage,
+    );
+    expect(() => calculateDuelOutcome(player, opponent, NaN)).toThrow(
+      expectedErrorMessage,
+    );
+  });
+});
+
 describe("calculateFreeForAll", () => {
   test("should calculate free-for-all match correctly", () => {
     const firstPlacePlayer = { id: "player1", rating: 1280 };
@@ -491,7 +651,7 @@ describe("calculateTeamMatch", () => {
     );
   });
 
-  test("should handle duplicate player IDs gracefully", () => {
+  test("should throw an error for a player on both teams", () => {
     const duplicateId = "duplicate";
     const team1 = {
       players: [
@@ -505,11 +665,9 @@ describe("calculateTeamMatch", () => {
       score: 50,
     };
 
-    // The function should still work, but behavior with duplicate IDs is worth testing
-    const results = calculateTeamMatch(team1, team2);
-
-    // Should have results for all players, including duplicates
-    expect(results.length).toBeGreaterThan(0);
+    expect(() => calculateTeamMatch(team1, team2)).toThrow(
+      "Player with id duplicate is on more than one team",
+    );
   });
 
   test("should handle micro-adjustments in weighted teams", () => {
@@ -959,3 +1117,850 @@ describe("calculateMultiTeamMatch", () => {
     );
   });
 });
+
+describe("home advantage and handicaps", () => {
+  test("should add home advantage to expected score", () => {
+    const homePlayer: Player = { id: "home", rating: 1500, home: true };
+    const awayPlayer: Player = { id: "away", rating: 1500 };
+
+    expect(
+      calculateExpectedScore(homePlayer, awayPlayer, { homeAdvantage: 100 }),
+    ).toBeCloseTo(calculateExpectedScore(1600, 1500));
+    expect(calculateExpectedScore(homePlayer, awayPlayer)).toBeCloseTo(0.5);
+  });
+
+  test("should add player and team handicaps to expected score", () => {
+    const handicappedPlayer: Player = { id: "p1", rating: 1400, handicap: 100 };
+    const handicappedTeam: Team = {
+      players: [
+        { id: "p2", rating: 1300, handicap: 50 },
+        { id: "p3", rating: 1300, handicap: 50 },
+      ],
+      handicap: 50,
+    };
+
+    expect(calculateExpectedScore(handicappedPlayer, 1500)).toBeCloseTo(0.5);
+    expect(calculateExpectedScore(handicappedTeam, 1400)).toBeCloseTo(0.5);
+  });
+
+  test("should honor home advantage in duels", () => {
+    const homePlayer: Player = { id: "home", rating: 1500, home: true };
+    const awayPlayer: Player = { id: "away", rating: 1500 };
+
+    const results = calculateDuelOutcome(
+      homePlayer,
+      awayPlayer,
+      DuelOutcome.DRAW,
+      { homeAdvantage: 100, kFactor: 20 },
+    );
+
+    // A draw at home is below expectation
+    expect(results.find((r) => r.id === "home")!.newRating).toBe(1497);
+    expect(results.find((r) => r.id === "away")!.newRating).toBe(1503);
+  });
+
+  test("should gain less for a home win than an away win", () => {
+    const options = { homeAdvantage: 65 };
+    const homeWin = calculateTeamMatch(
+      { players: [{ id: "p1", rating: 1500 }], score: 2, home: true },
+      { players: [{ id: "p2", rating: 1500 }], score: 1 },
+      options,
+    );
+    const awayWin = calculateTeamMatch(
+      { players: [{ id: "p1", rating: 1500 }], score: 2 },
+      { players: [{ id: "p2", rating: 1500 }], score: 1, home: true },
+      options,
+    );
+
+    const gain = (results: { id: string; newRating: number }[]) =>
+      results.find((r) => r.id === "p1")!.newRating - 1500;
+
+    expect(gain(homeWin)).toBeLessThan(gain(awayWin));
+  });
+
+  test("should honor handicaps in multi-team matches", () => {
+    const teams = [
+      { players: [{ id: "p1", rating: 1400 }], score: 3, handicap: 200 },
+      { players: [{ id: "p2", rating: 1600 }], score: 2 },
+      { players: [{ id: "p3", rating: 1500 }], score: 1 },
+    ];
+    const equivalentTeams = [
+      { players: [{ id: "p1", rating: 1600 }], score: 3 },
+      { players: [{ id: "p2", rating: 1600 }], score: 2 },
+      { players: [{ id: "p3", rating: 1500 }], score: 1 },
+    ];
+
+    const results = calculateMultiTeamMatch(teams);
+    const equivalentResults = calculateMultiTeamMatch(equivalentTeams);
+
+    expect(results.find((r) => r.id === "p1")!.newRating - 1400).toBe(
+      equivalentResults.find((r) => r.id === "p1")!.newRating - 1600,
+    );
+    expect(results.find((r) => r.id === "p2")!.newRating).toBe(
+      equivalentResults.find((r) => r.id === "p2")!.newRating,
+    );
+  });
+
+  test("should ignore home advantage without a home entity", () => {
+    const team1 = { players: [{ id: "p1", rating: 1500 }], score: 1 };
+    const team2 = { players: [{ id: "p2", rating: 1450 }], score: 0 };
+
+    expect(calculateTeamMatch(team1, team2, { homeAdvantage: 100 })).toEqual(
+      calculateTeamMatch(team1, team2),
+    );
+  });
+});
+
+describe("rating scale", () => {
+  test("should use custom logistic divisor", () => {
+    const hundredPointScale = { scale: { divisor: 20 } };
+
+    expect(calculateExpectedScore(70, 50, hundredPointScale)).toBeCloseTo(
+      calculateExpectedScore(1800, 1400),
+    );
+  });
+
+  test("should use custom logistic base", () => {
+    const naturalBase = { scale: { base: Math.E, divisor: 173.7178 } };
+
+    expect(calculateExpectedScore(1600, 1500, naturalBase)).toBeCloseTo(
+      calculateExpectedScore(1600, 1500),
+      4,
+    );
+  });
+
+  test("should use normal distribution model", () => {
+    const normalModel = { scale: { model: ExpectedScoreModel.NORMAL } };
+
+    expect(calculateExpectedScore(1500, 1500, normalModel)).toBeCloseTo(0.5);
+    // One standard deviation of the rating difference (200 * sqrt(2))
+    expect(
+      calculateExpectedScore(1500 + 200 * Math.SQRT2, 1500, normalModel),
+    ).toBeCloseTo(0.8413, 4);
+    expect(
+      calculateExpectedScore(1500, 1600, {
+        scale: { model: ExpectedScoreModel.NORMAL, divisor: 100 },
+      }),
+    ).toBeCloseTo(0.1587, 4);
+  });
+
+  test("should flow scale into duels", () => {
+    const results = calculateDuel(
+      { id: "p1", rating: 60 },
+      { id: "p2", rating: 50 },
+      { kFactor: 4, scale: { divisor: 20 } },
+    );
+
+    // Expected score on a 20 point divisor: 1 / (1 + 10^(-0.5)) = 0.76
+    expect(results.find((r) => r.id === "p1")!.newRating).toBe(61);
+    expect(results.find((r) => r.id === "p2")!.newRating).toBe(49);
+  });
+
+  test("should flow scale into free-for-all and team matches", () => {
+    const scaledOptions = {
+      scale: { model: ExpectedScoreModel.NORMAL, divisor: 10 },
+    };
+    const playersWithScores = [
+      { player: { id: "p1", rating: 1500 }, score: 3 },
+      { player: { id: "p2", rating: 1450 }, score: 2 },
+      { player: { id: "p3", rating: 1400 }, score: 1 },
+    ];
+
+    // Favourites winning on a very narrow scale gain nothing
+    expect(
+      calculateFreeForAll(playersWithScores, scaledOptions).map(
+        (r) => r.newRating,
+      ),
+    ).toEqual([1500, 1450, 1400]);
+    expect(
+      calculateTeamMatch(
+        { players: [{ id: "p1", rating: 1500 }], score: 1 },
+        { players: [{ id: "p2", rating: 1400 }], score: 0 },
+        scaledOptions,
+      ).map((r) => r.newRating),
+    ).toEqual([1500, 1400]);
+  });
+});
+
+describe("rounding modes", () => {
+  const totalChange = (
+    players: Player[],
+    results: { id: string; newRating: number }[],
+  ) =>
+    results.reduce(
+      (sum, result) =>
+        sum +
+        result.newRating -
+        players.find((player) => player.id === result.id)!.rating,
+      0,
+    );
+
+  test("should return unrounded ratings with NONE", () => {
+    const results = calculateDuel(
+      { id: "p1", rating: 1200 },
+      { id: "p2", rating: 1200 },
+      { rounding: RoundingMode.NONE },
+    );
+
+    expect(results.find((r) => r.id === "p1")!.newRating).toBe(1207.5);
+    expect(results.find((r) => r.id === "p2")!.newRating).toBe(1192.5);
+  });
+
+  test("should return unrounded weighted team ratings without micro-adjustment", () => {
+    const results = calculateTeamMatch(
+      {
+        players: [
+          { id: "p1", rating: 1000 },
+          { id: "p2", rating: 1000 },
+        ],
+        score: 1,
+      },
+      {
+        players: [
+          { id: "p3", rating: 1000 },
+          { id: "p4", rating: 1000 },
+        ],
+        score: 0,
+      },
+      {
+        strategy: CalculationStrategy.WEIGHTED_TEAMS,
+        rounding: RoundingMode.NONE,
+      },
+    );
+
+    expect(results.map((r) => r.newRating)).toEqual([
+      1007.5, 1007.5, 992.5, 992.5,
+    ]);
+  });
+
+  test("should keep duels zero-sum with ZERO_SUM", () => {
+    const players: Player[] = [
+      { id: "p1", rating: 1200 },
+      { id: "p2", rating: 1200 },
+    ];
+
+    const results = calculateDuel(players[0], players[1], {
+      rounding: RoundingMode.ZERO_SUM,
+    });
+
+    expect(results.map((r) => r.newRating)).toEqual([1208, 1192]);
+    expect(totalChange(players, results)).toBe(0);
+  });
+
+  test("should keep free-for-all zero-sum with ZERO_SUM", () => {
+    const iterationCount = 100;
+
+    for (let i = 0; i < iterationCount; i++) {
+      const playersWithScores = Array.from({ length: 5 }, (_, index) => ({
+        player: { id: `p${index}`, rating: Math.round(Math.random() * 1000) },
+        score: Math.floor(Math.random() * 4),
+      }));
+      const players = playersWithScores.map((entry) => entry.player);
+
+      const results = calculateFreeForAll(playersWithScores, {
+        rounding: RoundingMode.ZERO_SUM,
+      });
+
+      expect(totalChange(players, results)).toBe(0);
+      expect(results.every((r) => Number.isInteger(r.newRating))).toBe(true);
+    }
+  });
+
+  test("should keep WEIGHTED_TEAMS zero-sum with ZERO_SUM", () => {
+    const iterationCount = 100;
+
+    for (let i = 0; i < iterationCount; i++) {
+      const teamsWithScores = [0, 1, 2].map((teamIndex) => ({
+        players: [0, 1].map((playerIndex) => ({
+          id: `t${teamIndex}p${playerIndex}`,
+          rating: Math.round(Math.random() * 1000) + 1,
+        })),
+        score: teamIndex,
+      }));
+      const players = teamsWithScores.flatMap((team) => team.players);
+
+      const results = calculateMultiTeamMatch(teamsWithScores, {
+        strategy: CalculationStrategy.WEIGHTED_TEAMS,
+        rounding: RoundingMode.ZERO_SUM,
+      });
+
+      expect(totalChange(players, results)).toBe(0);
+    }
+  });
+
+  test("should keep AVERAGE_TEAMS zero-sum with ZERO_SUM", () => {
+    const iterationCount = 100;
+
+    for (let i = 0; i < iterationCount; i++) {
+      const teamsWithScores = [0, 1].map((teamIndex) => ({
+        players: [0, 1, 2].map((playerIndex) => ({
+          id: `t${teamIndex}p${playerIndex}`,
+          rating: Math.round(Math.random() * 1000),
+        })),
+        score: teamIndex,
+      }));
+      const players = teamsWithScores.flatMap((team) => team.players);
+
+      const results = calculateMultiTeamMatch(teamsWithScores, {
+        rounding: RoundingMode.ZERO_SUM,
+      });
+
+      expect(totalChange(players, results)).toBe(0);
+    }
+  });
+
+  test("should stay within one point of unrounded changes with ZERO_SUM", () => {
+    const playersWithScores = [
+      { player: { id: "p1", rating: 1280 }, score: 100 },
+      { player: { id: "p2", rating: 1300 }, score: 75 },
+      { player: { id: "p3", rating: 1220 }, score: 50 },
+    ];
+
+    const exact = calculateFreeForAll(playersWithScores, {
+      rounding: RoundingMode.NONE,
+    });
+    const rounded = calculateFreeForAll(playersWithScores, {
+      rounding: RoundingMode.ZERO_SUM,
+    });
+
+    rounded.forEach((result, index) => {
+      expect(Math.abs(result.newRating - exact[index].newRating)).toBeLessThan(
+        1,
+      );
+    });
+  });
+});
+
+describe("rating breakdown", () => {
+  test("should not include a breakdown by default", () => {
+    const results = calculateDuel(
+      { id: "p1", rating: 1200 },
+      { id: "p2", rating: 1200 },
+    );
+
+    expect(results[0].breakdown).toBeUndefined();
+  });
+
+  test("should explain a duel", () => {
+    const results = calculateDuel(
+      { id: "p1", rating: 1200 },
+      { id: "p2", rating: 1200 },
+      { includeBreakdown: true },
+    );
+    const breakdown = results.find((r) => r.id === "p1")!.breakdown!;
+
+    expect(breakdown.oldRating).toBe(1200);
+    expect(breakdown.ratingChange).toBe(8);
+    expect(breakdown.expectedScore).toBeCloseTo(0.5);
+    expect(breakdown.actualScore).toBe(1);
+    expect(breakdown.kFactor).toBe(15);
+    expect(breakdown.pairings).toEqual([
+      {
+        opponentIds: ["p2"],
+        expectedScore: 0.5,
+        actualScore: 1,
+        kFactor: 15,
+        marginOfVictoryMultiplier: 1,
+        ratingChange: 7.5,
+      },
+    ]);
+  });
+
+  test("should list pairwise contributions in a free-for-all", () => {
+    const results = calculateFreeForAll(
+      [
+        { player: { id: "p1", rating: 1200 }, score: 3 },
+        { player: { id: "p2", rating: 1300 }, score: 2 },
+        { player: { id: "p3", rating: 1100 }, score: 1 },
+      ],
+      { includeBreakdown: true, rounding: RoundingMode.NONE },
+    );
+
+    for (const result of results) {
+      const breakdown = result.breakdown!;
+      expect(breakdown.pairings).toHaveLength(2);
+      expect(
+        breakdown.pairings.reduce((sum, p) => sum + p.ratingChange, 0),
+      ).toBeCloseTo(breakdown.ratingChange);
+      expect(breakdown.oldRating + breakdown.ratingChange).toBe(
+        result.newRating,
+      );
+    }
+
+    const p1 = results.find((r) => r.id === "p1")!.breakdown!;
+    expect(p1.pairings.map((p) => p.opponentIds)).toEqual([["p2"], ["p3"]]);
+    expect(p1.actualScore).toBe(1);
+    expect(p1.pairings[0].expectedScore).toBeCloseTo(
+      calculateExpectedScore(1200, 1300),
+    );
+  });
+
+  test("should list opposing teams in a multi-team match", () => {
+    const results = calculateMultiTeamMatch(
+      [
+        {
+          players: [
+            { id: "p1", rating: 1400 },
+            { id: "p2", rating: 1000 },
+          ],
+          score: 2,
+        },
+        { players: [{ id: "p3", rating: 1200 }], score: 1 },
+        { players: [{ id: "p4", rating: 1200 }], score: 0 },
+      ],
+      {
+        includeBreakdown: true,
+        rounding: RoundingMode.NONE,
+        strategy: CalculationStrategy.WEIGHTED_TEAMS,
+      },
+    );
+
+    const p1 = results.find((r) => r.id === "p1")!.breakdown!;
+    expect(p1.pairings.map((p) => p.opponentIds)).toEqual([["p3"], ["p4"]]);
+    expect(p1.pairings.reduce((sum, p) => sum + p.ratingChange, 0)).toBeCloseTo(
+      p1.ratingChange,
+    );
+    expect(p1.pairings[0].ratingChange).toBeGreaterThan(
+      results.find((r) => r.id === "p2")!.breakdown!.pairings[0].ratingChange,
+    );
+  });
+});
+
+describe("provisional ratings", () => {
+  const newcomer: Player = { id: "new", rating: 1200, gamesPlayed: 0 };
+  const established: Player = { id: "est", rating: 1600, gamesPlayed: 50 };
+
+  test("should rate a first game by performance", () => {
+    const results = calculateDuel(newcomer, established, {
+      provisional: {},
+    });
+
+    expect(results.find((r) => r.id === "new")!.newRating).toBe(2000);
+  });
+
+  test("should average performance with previous games", () => {
+    const results = calculateDuel(
+      { id: "new", rating: 1500, gamesPlayed: 4 },
+      { ...established, rating: 1500 },
+      { provisional: {} },
+    );
+
+    expect(results.find((r) => r.id === "new")!.newRating).toBe(1580);
+  });
+
+  test("should round half changes away from zero", () => {
+    const results = calculateDuelOutcome(
+      { id: "new", rating: 1500, gamesPlayed: 1 },
+      { ...established, rating: 1499 },
+      DuelOutcome.DRAW,
+      { provisional: {} },
+    );
+
+    expect(results.find((r) => r.id === "new")!.newRating).toBe(1499); // -0.5
+  });
+
+  test("should damp established opponents' changes", () => {
+    const undamped = calculateDuel(newcomer, established, {
+      rounding: RoundingMode.NONE,
+    });
+    const damped = calculateDuel(newcomer, established, {
+      rounding: RoundingMode.NONE,
+      provisional: { opponentDamping: 0.25 },
+    });
+
+    const change = (results: { id: string; newRating: number }[]) =>
+      results.find((r) => r.id === "est")!.newRating - established.rating;
+    expect(change(damped)).toBeCloseTo(change(undamped) * 0.25);
+  });
+
+  test("should flag players until the threshold is reached", () => {
+    const options = { provisional: { gamesThreshold: 20 } };
+
+    const [almost] = calculateDuel(
+      { id: "p1", rating: 1200, gamesPlayed: 18 },
+      established,
+      options,
+    );
+    const [graduating] = calculateDuel(
+      { id: "p1", rating: 1200, gamesPlayed: 19 },
+      established,
+      options,
+    );
+    const [unknown] = calculateDuel(
+      { id: "p1", rating: 1200 },
+      established,
+      options,
+    );
+    const [disabled] = calculateDuel(newcomer, established);
+
+    expect(almost.provisional).toBe(true);
+    expect(graduating.provisional).toBe(false);
+    expect(unknown.provisional).toBe(false);
+    expect(disabled.provisional).toBeUndefined();
+  });
+
+  test("should use standard updates once established", () => {
+    const player = { id: "p1", rating: 1200, gamesPlayed: 20 };
+
+    expect(calculateDuel(player, established, { provisional: {} })).toEqual(
+      calculateDuel(player, established).map((result) => ({
+        ...result,
+        provisional: false,
+      })),
+    );
+  });
+
+  test("should average performance across free-for-all opponents", () => {
+    const results = calculateFreeForAll(
+      [
+        { player: newcomer, score: 2 },
+        { player: { id: "a", rating: 1400, gamesPlayed: 30 }, score: 1 },
+        { player: { id: "b", rating: 1600, gamesPlayed: 30 }, score: 0 },
+      ],
+      { provisional: {} },
+    );
+
+    expect(results.find((r) => r.id === "new")!.newRating).toBe(1900);
+  });
+
+  test("should damp by the share of provisional teammates", () => {
+    const options = { provisional: {}, rounding: RoundingMode.NONE };
+    const team1 = {
+      players: [newcomer, { id: "vet", rating: 1200, gamesPlayed: 30 }],
+      score: 1,
+    };
+    const team2 = {
+      players: [
+        { id: "c", rating: 1200, gamesPlayed: 30 },
+        { id: "d", rating: 1200, gamesPlayed: 30 },
+      ],
+      score: 0,
+    };
+
+    const results = calculateTeamMatch(team1, team2, options);
+
+    expect(results.find((r) => r.id === "vet")!.newRating).toBeCloseTo(1207.5);
+    expect(results.find((r) => r.id === "c")!.newRating).toBeCloseTo(
+      1200 - 7.5 * 0.75,
+    );
+  });
+});
+
+describe("rating limits", () => {
+  const winner: Player = { id: "w", rating: 1000 };
+  const loser: Player = { id: "l", rating: 1000 };
+
+  test("should stop ratings at an absolute floor", () => {
+    expect(
+      calculateDuel(winner, loser, { ratingLimits: { floor: 995 } }),
+    ).toEqual([
+      { id: "w", newRating: 1008 },
+      { id: "l", newRating: 995 },
+    ]);
+  });
+
+  test("should apply per-player and peak-based floors", () => {
+    const [, floored] = calculateDuel(winner, { ...loser, ratingFloor: 996 });
+    const [, peakFloored] = calculateDuel(
+      winner,
+      { ...loser, peakRating: 1197 },
+      { ratingLimits: { peakFloorGap: 200 } },
+    );
+
+    expect(floored.newRating).toBe(996);
+    expect(peakFloored.newRating).toBe(997);
+  });
+
+  test("should stop ratings at a ceiling", () => {
+    expect(
+      calculateDuel(winner, loser, { ratingLimits: { ceiling: 1005 } }),
+    ).toEqual([
+      { id: "w", newRating: 1005 },
+      { id: "l", newRating: 993 },
+    ]);
+  });
+
+  test("should not move ratings already past a limit", () => {
+    expect(
+      calculateDuel(winner, loser, {
+        ratingLimits: { floor: 1100, ceiling: 900 },
+      }),
+    ).toEqual([
+      { id: "w", newRating: 1000 },
+      { id: "l", newRating: 1000 },
+    ]);
+  });
+
+  test("should take absorbed points back from the other side when compensating", () => {
+    expect(
+      calculateDuel(winner, loser, {
+        ratingLimits: { floor: 995, compensate: true },
+      }),
+    ).toEqual([
+      { id: "w", newRating: 1006 },
+      { id: "l", newRating: 995 },
+    ]);
+  });
+
+  test("should compensate in proportion to each player's change", () => {
+    const results = calculateFreeForAll(
+      [
+        { player: { id: "a", rating: 1000 }, score: 3 },
+        { player: { id: "b", rating: 1000 }, score: 2 },
+        { player: { ...loser, ratingFloor: 990 }, score: 1 },
+      ],
+      { ratingLimits: { compensate: true } },
+    );
+
+    expect(results).toEqual([
+      { id: "a", newRating: 1010 },
+      { id: "b", newRating: 1000 },
+      { id: "l", newRating: 990 },
+    ]);
+  });
+
+  test("should keep multi-team matches balanced when compensating", () => {
+    const team = (id: string, score: number) => ({
+      players: [
+        { id: `${id}1`, rating: 1000 },
+        { id: `${id}2`, rating: 1000 },
+      ],
+      score,
+    });
+
+    const results = calculateMultiTeamMatch(
+      [team("a", 3), team("b", 2), team("c", 1)],
+      { ratingLimits: { floor: 995, compensate: true } },
+    );
+
+    expect(results.map((r) => r.newRating)).toEqual([
+      1005, 1005, 1000, 1000, 995, 995,
+    ]);
+  });
+
+  test("should report the limited change in the breakdown", () => {
+    const [, result] = calculateDuel(winner, loser, {
+      includeBreakdown: true,
+      ratingLimits: { floor: 995 },
+    });
+
+    expect(result.breakdown!.ratingChange).toBe(-5);
+  });
+});
+
+describe("partial participation", () => {
+  const opponents = {
+    players: [
+      { id: "c", rating: 1500 },
+      { id: "d", rating: 1500 },
+    ],
+    score: 0,
+  };
+  const change = (results: { id: string; newRating: number }[], id: string) =>
+    results.find((r) => r.id === id)!.newRating - 1500;
+
+  test("should weight team strength by participation", () => {
+    const team: Team = {
+      players: [
+        { id: "a", rating: 1600 },
+        { id: "sub1", rating: 1400, participation: 0.75 },
+        { id: "sub2", rating: 1800, participation: 0.25 },
+      ],
+    };
+
+    expect(calculateExpectedScore(team, 1500)).toBeCloseTo(
+      calculateExpectedScore((1600 + 0.75 * 1400 + 0.25 * 1800) / 2, 1500),
+    );
+  });
+
+  test("should scale rating changes by participation with AVERAGE_TEAMS", () => {
+    const results = calculateTeamMatch(
+      {
+        players: [
+          { id: "a", rating: 1500 },
+          { id: "b", rating: 1500 },
+          { id: "sub", rating: 1500, participation: 0.5 },
+        ],
+        score: 1,
+      },
+      opponents,
+      { rounding: RoundingMode.NONE },
+    );
+
+    expect(change(results, "a")).toBeCloseTo(7.5);
+    expect(change(results, "sub")).toBeCloseTo(3.75);
+    expect(change(results, "c")).toBeCloseTo(-7.5);
+  });
+
+  test("should scale rating shares by participation with WEIGHTED_TEAMS", () => {
+    const results = calculateTeamMatch(
+      {
+        players: [
+          { id: "a", rating: 1500 },
+          { id: "sub", rating: 1500, participation: 0.5 },
+        ],
+        score: 1,
+      },
+      opponents,
+      {
+        strategy: CalculationStrategy.WEIGHTED_TEAMS,
+        rounding: RoundingMode.NONE,
+      },
+    );
+
+    expect(change(results, "a")).toBeCloseTo(7.5);
+    expect(change(results, "sub")).toBeCloseTo(3.75);
+  });
+
+  test("should treat full participation like the default", () => {
+    const team = {
+      players: [
+        { id: "a", rating: 1700, participation: 1 },
+        { id: "b", rating: 1400, participation: 1 },
+      ],
+      score: 1,
+    };
+    const options = { strategy: CalculationStrategy.WEIGHTED_TEAMS };
+
+    expect(calculateTeamMatch(team, opponents, options)).toEqual(
+      calculateTeamMatch(
+        {
+          ...team,
+          players: team.players.map(({ id, rating }) => ({ id, rating })),
+        },
+        opponents,
+        options,
+      ),
+    );
+  });
+
+  test("should throw an error for participation outside (0, 1]", () => {
+    const team = (participation: number) => ({
+      players: [{ id: "a", rating: 1500, participation }],
+      score: 1,
+    });
+
+    expect(() => calculateTeamMatch(team(0), opponents)).toThrow(
+      "Participation must be greater than 0 and at most 1",
+    );
+    expect(() => calculateTeamMatch(team(1.5), opponents)).toThrow(
+      "Participation must be greater than 0 and at most 1",
+    );
+  });
+});
+
+describe("team strength models", () => {
+  const createTeam = (id: string, size: number, score = 0) => ({
+    players: Array.from({ length: size }, (_, i) => ({
+      id: `${id}${i + 1}`,
+      rating: 1500,
+    })),
+    score,
+  });
+  const options = (model: TeamStrengthModel, sizeAdvantage?: number) => ({
+    teamStrength: { model, sizeAdvantage },
+    rounding: RoundingMode.NONE,
+  });
+
+  test("should ignore team size with AVERAGE", () => {
+    expect(
+      calculateExpectedScore(
+        createTeam("a", 3),
+        createTeam("b", 2),
+        options(TeamStrengthModel.AVERAGE),
+      ),
+    ).toBe(0.5);
+  });
+
+  test("should add every player's rating with SUM", () => {
+    expect(
+      calculateExpectedScore(
+        createTeam("a", 3),
+        createTeam("b", 2),
+        options(TeamStrengthModel.SUM),
+      ),
+    ).toBeCloseTo(calculateExpectedScore(4500, 3000));
+  });
+
+  test("should add a per-player advantage with AVERAGE_WITH_SIZE_ADVANTAGE", () => {
+    expect(
+      calculateExpectedScore(
+        createTeam("a", 3),
+        createTeam("b", 2),
+        options(TeamStrengthModel.AVERAGE_WITH_SIZE_ADVANTAGE),
+      ),
+    ).toBeCloseTo(calculateExpectedScore(1600, 1500));
+    expect(
+      calculateExpectedScore(
+        createTeam("a", 3),
+        createTeam("b", 2),
+        options(TeamStrengthModel.AVERAGE_WITH_SIZE_ADVANTAGE, 50),
+      ),
+    ).toBeCloseTo(calculateExpectedScore(1550, 1500));
+  });
+
+  test("should expose the strength compared by calculateExpectedScore", () => {
+    const team = { ...createTeam("a", 2), handicap: 25, home: true };
+    const withHome = { ...options(TeamStrengthModel.SUM), homeAdvantage: 50 };
+
+    expect(calculateTeamStrength(team, withHome)).toBe(3075);
+    expect(calculateExpectedScore(team, createTeam("b", 2), withHome)).toBe(
+      calculateExpectedScore(3075, 3000),
+    );
+  });
+
+  test("should use the strength model for 3v2 rating changes", () => {
+    const results = calculateTeamMatch(
+      createTeam("a", 3, 1),
+      createTeam("b", 2, 0),
+      options(TeamStrengthModel.AVERAGE_WITH_SIZE_ADVANTAGE),
+    );
+    const expectedChange = 15 * (1 - calculateExpectedScore(1600, 1500));
+
+    expect(results.find((r) => r.id === "a1")!.newRating).toBeCloseTo(
+      1500 + expectedChange,
+    );
+    expect(results.find((r) => r.id === "b1")!.newRating).toBeCloseTo(
+      1500 - expectedChange,
+    );
+  });
+
+  test("should reward a smaller team beating larger ones in multi-team matches", () => {
+    const results = calculateMultiTeamMatch(
+      [createTeam("a", 3, 0), createTeam("b", 2, 1), createTeam("c", 1, 2)],
+      options(TeamStrengthModel.AVERAGE_WITH_SIZE_ADVANTAGE),
+    );
+    const averageResults = calculateMultiTeamMatch(
+      [createTeam("a", 3, 0), createTeam("b", 2, 1), createTeam("c", 1, 2)],
+      options(TeamStrengthModel.AVERAGE),
+    );
+
+    expect(results.find((r) => r.id === "c1")!.newRating).toBeCloseTo(
+      1500 +
+        15 *
+          (2 -
+            calculateExpectedScore(1600, 1800) -
+            calculateExpectedScore(1600, 1700)),
+    );
+    expect(results.find((r) => r.id === "c1")!.newRating).toBeGreaterThan(
+      averageResults.find((r) => r.id === "c1")!.newRating,
+    );
+  });
+
+  test("should count substitutes by participation", () => {
+    const team = {
+      players: [
+        { id: "a1", rating: 1500 },
+        { id: "a2", rating: 1500, participation: 0.5 },
+      ],
+    };
+
+    expect(
+      calculateExpectedScore(
+        team,
+        createTeam("b", 1),
+        options(TeamStrengthModel.SUM),
+      ),
+    ).toBeCloseTo(calculateExpectedScore(2250, 1500));
+  });
+});
@@ -0,0 +1,252 @@
+import {
+  calculateDuel,
+  calculateFreeForAll,
+  calculateMultiTeamMatch,
+  calculateTeamMatch,
+  createGamesPlayedKFactorPolicy,
+  createKFactorPolicy,
+  fideKFactorPolicy,
+  MatchType,
+  uscfKFactorPolicy,
+  type KFactorContext,
+  type Player,
+} from "./index";
+
+const contextFor = (player: Player): KFactorContext => ({
+  player,
+  opponent: { id: "opponent", rating: 1500 },
+  opponentRating: 1500,
+  matchType: MatchType.DUEL,
+});
+
+describe("fideKFactorPolicy", () => {
+  test("should use 40 for players with fewer than 30 games", () => {
+    expect(
+      fideKFactorPolicy(
+        contextFor({ id: "p1", rating: 2450, gamesPlayed: 12 }),
+      ),
+    ).toBe(40);
+  });
+
+  test("should use 20 for established players below 2400", () => {
+    expect(
+      fideKFactorPolicy(
+        contextFor({ id: "p1", rating: 2100, gamesPlayed: 80 }),
+      ),
+    ).toBe(20);
+    expect(fideKFactorPolicy(contextFor({ id: "p1", rating: 2100 }))).toBe(20);
+  });
+
+  test("should use 10 once a player has reached 2400", () => {
+    expect(
+      fideKFactorPolicy(
+        contextFor({ id: "p1", rating: 2410, gamesPlayed: 80 }),
+      ),
+    ).toBe(10);
+    expect(
+      fideKFactorPolicy(
+        contextFor({
+          id: "p1",
+          rating: 2350,
+          peakRating: 2405,
+          gamesPlayed: 80,
+        }),
+      ),
+    ).toBe(10);
+  });
+});
+
+describe("uscfKFactorPolicy", () => {
+  test("should decrease K as games played increase", () => {
+    const newPlayerKFactor = uscfKFactorPolicy(
+      contextFor({ id: "p1", rating: 1500, gamesPlayed: 3 }),
+    );
+    const experiencedPlayerKFactor = uscfKFactorPolicy(
+      contextFor({ id: "p1", rating: 1500, gamesPlayed: 10 }),
+    );
+
+    expect(newPlayerKFactor).toBe(200); // 800 / (3 + 1)
+    expect(experiencedPlayerKFactor).toBeLessThan(newPlayerKFactor);
+  });
+
+  test("should cap effective games by rating", () => {
+    const masterKFactor = uscfKFactorPolicy(
+      contextFor({ id: "p1", rating: 2400, gamesPlayed: 500 }),
+    );
+    const clubPlayerKFactor = uscfKFactorPolicy(
+      contextFor({ id: "p1", rating: 1500, gamesPlayed: 500 }),
+    );
+
+    expect(masterKFactor).toBeCloseTo(800 / 51);
+    expect(clubPlayerKFactor).toBeGreaterThan(masterKFactor);
+  });
+});
+
+describe("createGamesPlayedKFactorPolicy", () => {
+  test("should decay linearly from initial to final K", () => {
+    const policy = createGamesPlayedKFactorPolicy({
+      initialKFactor: 40,
+      finalKFactor: 20,
+      gamesUntilFinal: 10,
+    });
+
+    expect(policy(contextFor({ id: "p1", rating: 1500, gamesPlayed: 0 }))).toBe(
+      40,
+    );
+    expect(policy(contextFor({ id: "p1", rating: 1500, gamesPlayed: 5 }))).toBe(
+      30,
+    );
+    expect(
+      policy(contextFor({ id: "p1", rating: 1500, gamesPlayed: 25 })),
+    ).toBe(20);
+    expect(policy(contextFor({ id: "p1", rating: 1500 }))).toBe(20);
+  });
+});
+
+describe("createKFactorPolicy", () => {
+  const policy = createKFactorPolicy(
+    [
+      { maxGamesPlayed: 20, kFactor: 40 },
+      { minRating: 2400, kFactor: 10 },
+      { minRating: 2000, maxRating: 2400, kFactor: 16 },
+    ],
+    24,
+  );
+
+  test("should apply the first matching rule", () => {
+    expect(policy(contextFor({ id: "p1", rating: 2500, gamesPlayed: 5 }))).toBe(
+      40,
+    );
+    expect(
+      policy(contextFor({ id: "p1", rating: 2500, gamesPlayed: 50 })),
+    ).toBe(10);
+    expect(
+      policy(contextFor({ id: "p1", rating: 2000, gamesPlayed: 50 })),
+    ).toBe(16);
+  });
+
+  test("should use fallback when no rule matches", () => {
+    expect(
+      policy(contextFor({ id: "p1", rating: 1500, gamesPlayed: 50 })),
+    ).toBe(24);
+    expect(policy(contextFor({ id: "p1", rating: 1500 }))).toBe(24);
+  });
+});
+
+describe("K-factor policies in calculate functions", () => {
+  test("should apply per-player K-factor in duels", () => {
+    const provisionalPlayer: Player = {
+      id: "new",
+      rating: 1500,
+      gamesPlayed: 2,
+    };
+    const establishedPlayer: Player = {
+      id: "old",
+      rating: 1500,
+      gamesPlayed: 100,
+    };
+
+    const results = calculateDuel(provisionalPlayer, establishedPlayer, {
+      kFactor: fideKFactorPolicy,
+    });
+
+    expect(results.find((r) => r.id === "new")!.newRating).toBe(1520); // 40 * 0.5
+    expect(results.find((r) => r.id === "old")!.newRating).toBe(1490); // 20 * 0.5
+  });
+
+  test("should pass match context to policy", () => {
+    const contexts: KFactorContext[] = [];
+    const recordingPolicy = (context: KFactorContext) => {
+      contexts.push(context);
+      return 15;
+    };
+
+    calculateFreeForAll(
+      [
+        { player: { id: "p1", rating: 1500 }, score: 3 },
+        { player: { id: "p2", rating: 1400 }, score: 2 },
+        { player: { id: "p3", rating: 1300 }, score: 1 },
+      ],
+      { kFactor: recordingPolicy },
+    );
+
+    expect(contexts).toHaveLength(6);
+    expect(
+      contexts.every((context) => context.matchType === MatchType.FREE_FOR_ALL),
+    ).toBe(true);
+    expect(
+      contexts.find(
+        (context) =>
+          context.player.id === "p1" &&
+          "id" in context.opponent &&
+          context.opponent.id === "p3",
+      )!.opponentRating,
+    ).toBe(1300);
+  });
+
+  test("should match numeric K-factor when policy returns a constant", () => {
+    const playersWithScores = [
+      { player: { id: "p1", rating: 1280 }, score: 100 },
+      { player: { id: "p2", rating: 1300 }, score: 75 },
+      { player: { id: "p3", rating: 1220 }, score: 50 },
+    ];
+
+    expect(
+      calculateFreeForAll(playersWithScores, { kFactor: () => 24 }),
+    ).toEqual(calculateFreeForAll(playersWithScores, { kFactor: 24 }));
+  });
+
+  test("should apply per-player K-factor in team matches", () => {
+    const team1 = {
+      players: [
+        { id: "new", rating: 1500, gamesPlayed: 0 },
+        { id: "old", rating: 1500, gamesPlayed: 100 },
+      ],
+      score: 10,
+    };
+    const team2 = {
+      players: [
+        { id: "p3", rating: 1500, gamesPlayed: 100 },
+        { id: "p4", rating: 1500, gamesPlayed: 100 },
+      ],
+      score: 5,
+    };
+    const contexts: KFactorContext[] = [];
+
+    const results = calculateTeamMatch(team1, team2, {
+      kFactor: (context) => {
+        contexts.push(context);
+        return fideKFactorPolicy(context);
+      },
+    });
+
+    expect(results.find((r) => r.id === "new")!.newRating).toBe(1520);
+    expect(results.find((r) => r.id === "old")!.newRating).toBe(1510);
+    expect(contexts.every((c) => c.matchType === MatchType.TEAM)).toBe(true);
+    expect(contexts.every((c) => c.opponentRating === 1500)).toBe(true);
+  });
+
+  test("should match numeric K-factor in multi-team matches when policy returns a constant", () => {
+    const teams = [
+      {
+        players: [
+          { id: "p1", rating: 700 },
+          { id: "p2", rating: 1150 },
+        ],
+        score: 100,
+      },
+      {
+        players: [
+          { id: "p3", rating: 1300 },
+          { id: "p4", rating: 1000 },
+        ],
+        score: 50,
+      },
+      { players: [{ id: "p5", rating: 1100 }], score: 75 },
+    ];
+
+    expect(calculateMultiTeamMatch(teams, { kFactor: () => 32 })).toEqual(
+      calculateMultiTeamMatch(teams, { kFactor: 32 }),
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import type { MatchType, Player, Team } from "./elo";
+
+export interface KFactorContext {
+  player: Player;
+  opponent: Player | Team;
+  /** Rating of the opponent, or the average rating of an opposing team */
+  opponentRating: number;
+  matchType: MatchType;
+}
+
+export type KFactorPolicy = (context: KFactorContext) => number;
+
+/** Bounds are inclusive minimums and exclusive maximums */
+export interface KFactorRule {
+  kFactor: number;
+  minRating?: number;
+  maxRating?: number;
+  minGamesPlayed?: number;
+  maxGamesPlayed?: number;
+}
+
+export interface GamesPlayedKFactorOptions {
+  /** K-factor for a player's first game, default: 40 */
+  initialKFactor?: number;
+  /** K-factor once the player has completed `gamesUntilFinal` games, default: 10 */
+  finalKFactor?: number;
+  /** default: 30 */
+  gamesUntilFinal?: number;
+}
+
+const FIDE_PROVISIONAL_GAMES = 30;
+const FIDE_MASTER_RATING = 2400;
+const USCF_MAXIMUM_EFFECTIVE_GAMES = 50;
+const USCF_EFFECTIVE_GAMES_RATING_LIMIT = 2355;
+
+const isWithinBounds = (
+  value: number,
+  min: number | undefined,
+  max: number | undefined,
+): boolean =>
+  (min === undefined || value >= min) && (max === undefined || value < max);
+
+const ruleMatches = (rule: KFactorRule, player: Player): boolean => {
+  if (!isWithinBounds(player.rating, rule.minRating, rule.maxRating)) {
+    return false;
+  }
+  if (rule.minGamesPlayed === undefined && rule.maxGamesPlayed === undefined) {
+    return true;
+  }
+  return (
+    player.gamesPlayed !== undefined &&
+    isWithinBounds(player.gamesPlayed, rule.minGamesPlayed, rule.maxGamesPlayed)
+  );
+};
+
+/**
+ * Builds a policy from declarative rules. The first rule matching the player
+ * decides the K-factor, `fallbackKFactor` applies when no rule matches.
+ */
+export const createKFactorPolicy = (
+  rules: KFactorRule[],
+  fallbackKFactor: number,
+): KFactorPolicy => {
+  return ({ player }) =>
+    rules.find((rule) => ruleMatches(rule, player))?.kFactor ?? fallbackKFactor;
+};
+
+/** Linear decay from `initialKFactor` to `finalKFactor` over the player's first games */
+export const createGamesPlayedKFactorPolicy = (
+  options: GamesPlayedKFactorOptions = {},
+): KFactorPolicy => {
+  const initialKFactor = options.initialKFactor ?? 40;
+  const finalKFactor = options.finalKFactor ?? 10;
+  const gamesUntilFinal = options.gamesUntilFinal ?? 30;
+
+  return ({ player }) => {
+    const gamesPlayed = player.gamesPlayed ?? gamesUntilFinal;
+    const progress = Math.min(gamesPlayed / gamesUntilFinal, 1);
+    return initialKFactor + (finalKFactor - initialKFactor) * progress;
+  };
+};
+
+/**
+ * FIDE K-factors: 40 until 30 games are played, 10 once the player has
+ * reached 2400 and 20 otherwise. Players without `gamesPlayed` are treated as
+ * established.
+ */
+export const fideKFactorPolicy: KFactorPolicy = ({ player }) => {
+  if (
+    player.gamesPlayed !== undefined &&
+    player.gamesPlayed < FIDE_PROVISIONAL_GAMES
+  ) {
+    return 40;
+  }
+  if (
+    Math.max(player.rating, player.peakRating ?? player.rating) >=
+    FIDE_MASTER_RATING
+  ) {
+    return 10;
+  }
+  return 20;
+};
+
+/**
+ * USCF standard formula K = 800 / (Ne + m) with one game per match, where the
+ * effective number of games Ne is capped based on the player's rating.
+ * Players without `gamesPlayed` use the rating-based cap.
+ */
+export const uscfKFactorPolicy: KFactorPolicy = ({ player }) => {
+  const effectiveGamesCap =
+    player.rating < USCF_EFFECTIVE_GAMES_RATING_LIMIT
+      ? USCF_MAXIMUM_EFFECTIVE_GAMES /
+        Math.sqrt(0.662 + 0.00000739 * Math.pow(2569 - player.rating, 2))
+      : USCF_MAXIMUM_EFFECTIVE_GAMES;
+  const effectiveGames = Math.min(
+    player.gamesPlayed ?? effectiveGamesCap,
+    effectiveGamesCap,
+  );
+  return 800 / (effectiveGames + 1);
+};
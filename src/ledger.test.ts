@@ -0,0 +1,280 @@
+import {
+  calculateDuel,
+  calculateDuelOutcome,
+  createRatingLedger,
+  DuelOutcome,
+  fideKFactorPolicy,
+  MatchType,
+  replayMatches,
+  type MatchRecord,
+} from "./index";
+
+const duel = (
+  id: string,
+  playerId: string,
+  opponentId: string,
+  outcome: DuelOutcome | number = DuelOutcome.WIN,
+): MatchRecord => ({ id, type: MatchType.DUEL, playerId, opponentId, outcome });
+
+describe("replayMatches", () => {
+  test("should apply matches in order", () => {
+    const replay = replayMatches(
+      [duel("m1", "alice", "bob"), duel("m2", "bob", "alice")],
+      [
+        { id: "alice", rating: 1300 },
+        { id: "bob", rating: 1200 },
+      ],
+    );
+
+    const [afterFirstAlice, afterFirstBob] = calculateDuel(
+      { id: "alice", rating: 1300 },
+      { id: "bob", rating: 1200 },
+    );
+    const expectedFinal = calculateDuel(
+      { id: "bob", rating: afterFirstBob.newRating },
+      { id: "alice", rating: afterFirstAlice.newRating },
+    );
+
+    expect(replay.deltas.map((delta) => delta.matchId)).toEqual(["m1", "m2"]);
+    expect(replay.ratings.find((p) => p.id === "alice")!.rating).toBe(
+      expectedFinal.find((r) => r.id === "alice")!.newRating,
+    );
+    expect(replay.ratings.find((p) => p.id === "bob")!.rating).toBe(
+      expectedFinal.find((r) => r.id === "bob")!.newRating,
+    );
+  });
+
+  test("should start unknown players at initial rating", () => {
+    const replay = replayMatches([duel("m1", "alice", "bob", 0.5)], [], {
+      initialRating: 1500,
+    });
+
+    expect(replay.deltas[0].changes).toEqual([
+      { id: "alice", oldRating: 1500, newRating: 1500 },
+      { id: "bob", oldRating: 1500, newRating: 1500 },
+    ]);
+  });
+
+  test("should replay free-for-all and team matches", () => {
+    const replay = replayMatches([
+      {
+        id: "ffa",
+        type: MatchType.FREE_FOR_ALL,
+        scores: [
+          { playerId: "p1", score: 3 },
+          { playerId: "p2", score: 2 },
+          { playerId: "p3", score: 1 },
+        ],
+      },
+      {
+        id: "team",
+        type: MatchType.TEAM,
+        teams: [
+          { playerIds: ["p1", "p2"], score: 1 },
+          { playerIds: ["p3", "p4"], score: 0 },
+        ],
+      },
+    ]);
+
+    expect(replay.deltas[0].changes).toHaveLength(3);
+    expect(replay.deltas[1].changes).toHaveLength(4);
+    expect(replay.ratings.map((p) => p.id)).toEqual(["p1", "p2", "p3", "p4"]);
+  });
+
+  test("should track games played and peak rating for K-factor policies", () => {
+    const replay = replayMatches(
+      [duel("m1", "alice", "bob"), duel("m2", "bob", "alice")],
+      [{ id: "alice", rating: 1500, gamesPlayed: 40 }],
+      { kFactor: fideKFactorPolicy, initialRating: 1500 },
+    );
+
+    const alice = replay.ratings.find((p) => p.id === "alice")!;
+    const bob = replay.ratings.find((p) => p.id === "bob")!;
+
+    expect(alice.gamesPlayed).toBe(42);
+    expect(bob.gamesPlayed).toBe(2);
+    expect(alice.peakRating).toBe(1510); // K 20 win at equal ratings
+    expect(replay.deltas[0].changes[1].newRating).toBe(1480); // K 40 loss
+  });
+
+  test("should rate newcomers by performance while provisional", () => {
+    const replay = replayMatches(
+      [duel("m1", "alice", "bob"), duel("m2", "bob", "alice")],
+      [{ id: "alice", rating: 1500, gamesPlayed: 40 }],
+      { provisional: { gamesThreshold: 2 } },
+    );
+
+    expect(replay.deltas[0].changes[1].newRating).toBe(1100);
+    expect(replay.deltas[1].changes[0].newRating).toBe(1501); // (1100 + 1501 + 400) / 2
+    expect(replay.ratings.find((p) => p.id === "bob")!.gamesPlayed).toBe(2);
+  });
+
+  test("should keep initial players without games played established", () => {
+    const replay = replayMatches(
+      [duel("m1", "alice", "bob"), duel("m2", "alice", "bob")],
+      [
+        { id: "alice", rating: 2100 },
+        { id: "bob", rating: 2100 },
+      ],
+      { kFactor: fideKFactorPolicy, provisional: {} },
+    );
+
+    expect(replay.deltas[1].changes).toEqual([
+      { id: "alice", oldRating: 2110, newRating: 2119 }, // K 20, not 40
+      { id: "bob", oldRating: 2090, newRating: 2081 },
+    ]);
+    expect(replay.ratings[0].gamesPlayed).toBeUndefined();
+  });
+});
+
+describe("createRatingLedger", () => {
+  test("should append matches and report per-match deltas", () => {
+    const ledger = createRatingLedger([
+      { id: "alice", rating: 1200 },
+      { id: "bob", rating: 1320 },
+    ]);
+
+    const delta = ledger.addMatch(duel("m1", "alice", "bob"));
+    const expected = calculateDuel(
+      { id: "alice", rating: 1200 },
+      { id: "bob", rating: 1320 },
+    );
+
+    expect(delta.matchId).toBe("m1");
+    expect(delta.changes[0].newRating).toBe(expected[0].newRating);
+    expect(ledger.getRating("alice")).toBe(expected[0].newRating);
+    expect(ledger.getRating("bob")).toBe(expected[1].newRating);
+    expect(ledger.getDeltas()).toEqual([delta]);
+  });
+
+  test("should track rating history per player", () => {
+    const ledger = createRatingLedger();
+    ledger.addMatch(duel("m1", "alice", "bob"));
+    ledger.addMatch(duel("m2", "carol", "bob"));
+    ledger.addMatch(duel("m3", "alice", "carol"));
+
+    const history = ledger.getHistory("alice");
+
+    expect(history.map((entry) => entry.matchId)).toEqual(["m1", "m3"]);
+    expect(history[1].rating).toBe(ledger.getRating("alice"));
+  });
+
+  test("should recompute when a past match is corrected", () => {
+    const ledger = createRatingLedger();
+    ledger.addMatch(duel("m1", "alice", "bob"));
+    ledger.addMatch(duel("m2", "alice", "carol"));
+
+    ledger.updateMatch(duel("m1", "alice", "bob", DuelOutcome.LOSS));
+
+    const expected = replayMatches([
+      duel("m1", "alice", "bob", DuelOutcome.LOSS),
+      duel("m2", "alice", "carol"),
+    ]);
+    expect(ledger.getRatings()).toEqual(expected.ratings);
+    expect(ledger.getDeltas()).toEqual(expected.deltas);
+  });
+
+  test("should recompute when a match is inserted", () => {
+    const ledger = createRatingLedger();
+    ledger.addMatch(duel("m1", "alice", "bob"));
+    ledger.addMatch(duel("m3", "alice", "bob"));
+
+    ledger.insertMatch(1, duel("m2", "bob", "alice", 0.75));
+
+    const expected = replayMatches([
+      duel("m1", "alice", "bob"),
+      duel("m2", "bob", "alice", 0.75),
+      duel("m3", "alice", "bob"),
+    ]);
+    expect(ledger.getMatches().map((match) => match.id)).toEqual([
+      "m1",
+      "m2",
+      "m3",
+    ]);
+    expect(ledger.getRatings()).toEqual(expected.ratings);
+  });
+
+  test("should recompute when a match is removed", () => {
+    const ledger = createRatingLedger();
+    ledger.addMatch(duel("m1", "alice", "bob"));
+    ledger.addMatch(duel("m2", "bob", "alice"));
+
+    ledger.removeMatch("m1");
+
+    const [bobResult, aliceResult] = calculateDuelOutcome(
+      { id: "bob", rating: 1200 },
+      { id: "alice", rating: 1200 },
+      DuelOutcome.WIN,
+    );
+    expect(ledger.getRating("alice")).toBe(aliceResult.newRating);
+    expect(ledger.getRating("bob")).toBe(bobResult.newRating);
+    expect(ledger.getHistory("alice")).toHaveLength(1);
+  });
+
+  test("should not change state when a match fails", () => {
+    const ledger = createRatingLedger();
+    ledger.addMatch(duel("m1", "alice", "bob"));
+
+    expect(() => ledger.addMatch(duel("m2", "alice", "carol", 2))).toThrow(
+      "Actual score must be between 0 and 1",
+    );
+    expect(ledger.getRating("carol")).toBeUndefined();
+    expect(ledger.getMatches()).toHaveLength(1);
+  });
+
+  test("should throw error for duplicate and unknown match ids", () => {
+    const ledger = createRatingLedger();
+    ledger.addMatch(duel("m1", "alice", "bob"));
+
+    expect(() => ledger.addMatch(duel("m1", "alice", "bob"))).toThrow(
+      "Match with id m1 already exists",
+    );
+    expect(() => ledger.removeMatch("missing")).toThrow(
+      "Match with id missing not found",
+    );
+    expect(() => ledger.insertMatch(5, duel("m2", "alice", "bob"))).toThrow(
+      "Match index out of range",
+    );
+  });
+});
+
+describe("home advantage in ledger matches", () => {
+  test("should apply home advantage to the home player in duels", () => {
+    const replay = replayMatches(
+      [
+        {
+          id: "m1",
+          type: MatchType.DUEL,
+          playerId: "alice",
+          opponentId: "bob",
+          outcome: DuelOutcome.DRAW,
+          homePlayerId: "alice",
+        },
+      ],
+      [],
+      { homeAdvantage: 100, kFactor: 20 },
+    );
+
+    expect(replay.ratings.find((p) => p.id === "alice")!.rating).toBe(1197);
+    expect(replay.ratings.find((p) => p.id === "alice")!.home).toBeUndefined();
+  });
+
+  test("should apply home advantage to home teams", () => {
+    const replay = replayMatches(
+      [
+        {
+          id: "m1",
+          type: MatchType.TEAM,
+          teams: [
+            { playerIds: ["p1"], score: 1, home: true },
+            { playerIds: ["p2"], score: 1 },
+          ],
+        },
+      ],
+      [],
+      { homeAdvantage: 100, kFactor: 20 },
+    );
+
+    expect(replay.ratings.find((p) => p.id === "p1")!.rating).toBe(1197);
+  });
+});
@@ -0,0 +1,285 @@
+import {
+  calculateDuelOutcome,
+  calculateFreeForAll,
+  calculateMultiTeamMatch,
+  MatchType,
+  type DuelOutcome,
+  type MatchResult,
+  type Options,
+  type Player,
+  type RatingBreakdown,
+} from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+
+const DEFAULT_INITIAL_RATING = 1200;
+
+export interface DuelMatchRecord {
+  id: string;
+  type: MatchType.DUEL;
+  playerId: string;
+  opponentId: string;
+  /** Outcome from the perspective of `playerId` */
+  outcome: DuelOutcome | number;
+  /** Player receiving `Options.homeAdvantage` */
+  homePlayerId?: string;
+}
+
+export interface FreeForAllMatchRecord {
+  id: string;
+  type: MatchType.FREE_FOR_ALL;
+  scores: { playerId: string; score: number }[];
+}
+
+export interface TeamMatchRecord {
+  id: string;
+  type: MatchType.TEAM;
+  teams: { playerIds: string[]; score: number; home?: boolean }[];
+}
+
+export type MatchRecord =
+  | DuelMatchRecord
+  | FreeForAllMatchRecord
+  | TeamMatchRecord;
+
+export interface LedgerOptions extends Options {
+  /** Rating for players seen for the first time, default: 1200 */
+  initialRating?: number;
+}
+
+export interface RatingChange {
+  id: string;
+  oldRating: number;
+  newRating: number;
+  /** Present when `Options.includeBreakdown` is set */
+  breakdown?: RatingBreakdown;
+}
+
+export interface MatchDelta {
+  matchId: string;
+  changes: RatingChange[];
+}
+
+export interface RatingHistoryEntry {
+  matchId: string;
+  rating: number;
+}
+
+export interface LedgerReplay {
+  ratings: Player[];
+  deltas: MatchDelta[];
+}
+
+export interface RatingLedger {
+  /** Appends a match and applies it to the current ratings */
+  addMatch(match: MatchRecord): MatchDelta;
+  /** Inserts a match at a position in the history and recomputes */
+  insertMatch(index: number, match: MatchRecord): void;
+  /** Replaces the match with the same id and recomputes */
+  updateMatch(match: MatchRecord): void;
+  removeMatch(matchId: string): void;
+  getMatches(): MatchRecord[];
+  getRatings(): Player[];
+  getRating(playerId: string): number | undefined;
+  getHistory(playerId: string): RatingHistoryEntry[];
+  getDeltas(): MatchDelta[];
+}
+
+type RatingTable = Map<string, Player>;
+
+const createRatingTable = (initialPlayers: Player[]): RatingTable =>
+  new Map(initialPlayers.map((player) => [player.id, { ...player }]));
+
+const getOrCreatePlayer = (
+  table: RatingTable,
+  playerId: string,
+  options: LedgerOptions,
+): Player => {
+  const existingPlayer = table.get(playerId);
+  if (existingPlayer) {
+    return existingPlayer;
+  }
+  const player: Player = {
+    id: playerId,
+    rating: options.initialRating ?? DEFAULT_INITIAL_RATING,
+    gamesPlayed: 0,
+  };
+  table.set(playerId, player);
+  return player;
+};
+
+const calculateMatchResult = (
+  table: RatingTable,
+  match: MatchRecord,
+  options: LedgerOptions,
+): MatchResult => {
+  const lookup = (playerId: string) =>
+    getOrCreatePlayer(table, playerId, options);
+  const lookupDuelist = (playerId: string, homePlayerId?: string): Player => ({
+    ...lookup(playerId),
+    home: playerId === homePlayerId,
+  });
+
+  switch (match.type) {
+    case MatchType.DUEL:
+      return calculateDuelOutcome(
+        lookupDuelist(match.playerId, match.homePlayerId),
+        lookupDuelist(match.opponentId, match.homePlayerId),
+        match.outcome,
+        options,
+      );
+    case MatchType.FREE_FOR_ALL:
+      return calculateFreeForAll(
+        match.scores.map(({ playerId, score }) => ({
+          player: lookup(playerId),
+          score,
+        })),
+        options,
+      );
+    case MatchType.TEAM:
+      return calculateMultiTeamMatch(
+        match.teams.map(({ playerIds, score, home }) => ({
+          players: playerIds.map(lookup),
+          score,
+          home,
+        })),
+        options,
+      );
+  }
+};
+
+const applyMatch = (
+  table: RatingTable,
+  match: MatchRecord,
+  options: LedgerOptions,
+): MatchDelta => {
+  const results = calculateMatchResult(table, match, options);
+
+  const changes = results.map((result) => {
+    const player = getOrCreatePlayer(table, result.id, options);
+    table.set(result.id, {
+      ...player,
+      rating: result.newRating,
+      gamesPlayed:
+        player.gamesPlayed === undefined ? undefined : player.gamesPlayed + 1,
+      peakRating: Math.max(
+        player.peakRating ?? player.rating,
+        result.newRating,
+      ),
+    });
+    const change: RatingChange = {
+      id: result.id,
+      oldRating: player.rating,
+      newRating: result.newRating,
+    };
+    if (result.breakdown) {
+      change.breakdown = result.breakdown;
+    }
+    return change;
+  });
+
+  return { matchId: match.id, changes };
+};
+
+/**
+ * Applies matches in order to a rating table. Players missing from
+ * `initialPlayers` start at `options.initialRating` with no games played.
+ * `gamesPlayed` and `peakRating` are tracked so K-factor policies see each
+ * player's history; initial players without `gamesPlayed` stay established.
+ */
+export const replayMatches = (
+  matches: MatchRecord[],
+  initialPlayers: Player[] = [],
+  options: LedgerOptions = {},
+): LedgerReplay => {
+  const table = createRatingTable(initialPlayers);
+  const deltas = matches.map((match) => applyMatch(table, match, options));
+  return { ratings: Array.from(table.values()), deltas };
+};
+
+export const createRatingLedger = (
+  initialPlayers: Player[] = [],
+  options: LedgerOptions = {},
+): RatingLedger => {
+  let matches: MatchRecord[] = [];
+  let table = createRatingTable(initialPlayers);
+  let deltas: MatchDelta[] = [];
+
+  const recompute = (updatedMatches: MatchRecord[]): void => {
+    const replay = replayMatches(updatedMatches, initialPlayers, options);
+    matches = updatedMatches;
+    table = createRatingTable(replay.ratings);
+    deltas = replay.deltas;
+  };
+
+  const findMatchIndex = (matchId: string): number => {
+    const index = matches.findIndex((match) => match.id === matchId);
+    if (index === -1) {
+      throw new EloNotFoundError(
+        EloErrorCode.MATCH_NOT_FOUND,
+        `Match with id ${matchId} not found`,
+      );
+    }
+    return index;
+  };
+
+  const ensureUniqueMatchId = (matchId: string): void => {
+    if (matches.some((match) => match.id === matchId)) {
+      throw new EloValidationError(
+        EloErrorCode.DUPLICATE_MATCH_ID,
+        `Match with id ${matchId} already exists`,
+      );
+    }
+  };
+
+  return {
+    addMatch(match) {
+      ensureUniqueMatchId(match.id);
+      const updatedTable = new Map(table);
+      const delta = applyMatch(updatedTable, match, options);
+      table = updatedTable;
+      matches = [...matches, match];
+      deltas = [...deltas, delta];
+      return delta;
+    },
+    insertMatch(index, match) {
+      ensureUniqueMatchId(match.id);
+      if (!Number.isInteger(index) || index < 0 || index > matches.length) {
+        throw new EloValidationError(
+          EloErrorCode.INVALID_ARGUMENT,
+          "Match index out of range",
+        );
+      }
+      recompute([...matches.slice(0, index), match, ...matches.slice(index)]);
+    },
+    updateMatch(match) {
+      const index = findMatchIndex(match.id);
+      recompute(matches.map((existing, i) => (i === index ? match : existing)));
+    },
+    removeMatch(matchId) {
+      const index = findMatchIndex(matchId);
+      recompute(matches.filter((_, i) => i !== index));
+    },
+    getMatches() {
+      return [...matches];
+    },
+    getRatings() {
+      return Array.from(table.values(), (player) => ({ ...player }));
+    },
+    getRating(playerId) {
+      return table.get(playerId)?.rating;
+    },
+    getHistory(playerId) {
+      return deltas.flatMap((delta) =>
+        delta.changes
+          .filter((change) => change.id === playerId)
+          .map((change) => ({
+            matchId: delta.matchId,
+            rating: change.newRating,
+          })),
+      );
+    },
+    getDeltas() {
+      return [...deltas];
+    },
+  };
+};
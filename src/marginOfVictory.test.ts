@@ -0,0 +1,203 @@
+import {
+  calculateFreeForAll,
+  calculateMultiTeamMatch,
+  calculateTeamMatch,
+  createLogMarginOfVictory,
+  fiveThirtyEightMarginOfVictory,
+  TeamStrengthModel,
+} from "./index";
+
+const teamWithScore = (id: string, rating: number, score: number) => ({
+  players: [{ id, rating }],
+  score,
+});
+
+describe("fiveThirtyEightMarginOfVictory", () => {
+  test("should grow logarithmically with score difference", () => {
+    const oneGoal = fiveThirtyEightMarginOfVictory({
+      scoreDifference: 1,
+      winnerRatingDifference: 0,
+    });
+    const tenGoals = fiveThirtyEightMarginOfVictory({
+      scoreDifference: 10,
+      winnerRatingDifference: 0,
+    });
+
+    expect(oneGoal).toBeCloseTo(Math.log(2));
+    expect(tenGoals).toBeCloseTo(Math.log(11));
+  });
+
+  test("should dampen favourites and boost underdogs", () => {
+    const favourite = fiveThirtyEightMarginOfVictory({
+      scoreDifference: 7,
+      winnerRatingDifference: 200,
+    });
+    const underdog = fiveThirtyEightMarginOfVictory({
+      scoreDifference: 7,
+      winnerRatingDifference: -200,
+    });
+
+    expect(favourite).toBeLessThan(Math.log(8));
+    expect(underdog).toBeGreaterThan(Math.log(8));
+  });
+
+  test("should stay positive and finite for huge underdog gaps", () => {
+    for (const winnerRatingDifference of [-2200, -3000, -100000]) {
+      expect(
+        fiveThirtyEightMarginOfVictory({
+          scoreDifference: 3,
+          winnerRatingDifference,
+        }),
+      ).toBeCloseTo(Math.log(4) * 10);
+    }
+  });
+});
+
+describe("createLogMarginOfVictory", () => {
+  test("should use custom autocorrelation parameters", () => {
+    const multiplier = createLogMarginOfVictory({
+      autocorrelationScale: 1,
+      ratingDifferenceWeight: 0.005,
+    });
+
+    expect(
+      multiplier({ scoreDifference: 3, winnerRatingDifference: 100 }),
+    ).toBeCloseTo(Math.log(4) / 1.5);
+  });
+});
+
+describe("margin of victory in calculate functions", () => {
+  test("should move ratings more for a bigger win in team matches", () => {
+    const options = {
+      kFactor: 20,
+      marginOfVictory: fiveThirtyEightMarginOfVictory,
+    };
+
+    const narrowWin = calculateTeamMatch(
+      teamWithScore("home", 1500, 1),
+      teamWithScore("away", 1500, 0),
+      options,
+    );
+    const blowout = calculateTeamMatch(
+      teamWithScore("home", 1500, 10),
+      teamWithScore("away", 1500, 0),
+      options,
+    );
+
+    const narrowGain = narrowWin.find((r) => r.id === "home")!.newRating - 1500;
+    const blowoutGain = blowout.find((r) => r.id === "home")!.newRating - 1500;
+
+    expect(narrowGain).toBe(7); // 20 * 0.5 * ln(2)
+    expect(blowoutGain).toBe(24); // 20 * 0.5 * ln(11)
+    expect(blowout.find((r) => r.id === "away")!.newRating).toBe(1476);
+  });
+
+  test("should not change ties", () => {
+    const results = calculateTeamMatch(
+      teamWithScore("p1", 1400, 2),
+      teamWithScore("p2", 1600, 2),
+      { marginOfVictory: fiveThirtyEightMarginOfVictory },
+    );
+
+    expect(results).toEqual(
+      calculateTeamMatch(
+        teamWithScore("p1", 1400, 2),
+        teamWithScore("p2", 1600, 2),
+      ),
+    );
+  });
+
+  test("should scale each pairing in multi-team matches", () => {
+    const multiplier = () => 2;
+    const teams = [
+      teamWithScore("p1", 1500, 30),
+      teamWithScore("p2", 1450, 20),
+      teamWithScore("p3", 1400, 10),
+    ];
+
+    const scaled = calculateMultiTeamMatch(teams, {
+      kFactor: 10,
+      marginOfVictory: multiplier,
+    });
+    const doubledK = calculateMultiTeamMatch(teams, { kFactor: 20 });
+
+    expect(scaled).toEqual(doubledK);
+  });
+
+  test("should use pairwise score margins in free-for-all", () => {
+    const playersWithScores = [
+      { player: { id: "p1", rating: 1500 }, score: 100 },
+      { player: { id: "p2", rating: 1500 }, score: 99 },
+      { player: { id: "p3", rating: 1500 }, score: 10 },
+    ];
+
+    const results = calculateFreeForAll(playersWithScores, {
+      marginOfVictory: fiveThirtyEightMarginOfVictory,
+    });
+    const withoutMargin = calculateFreeForAll(playersWithScores);
+
+    const loss = (result: typeof results) =>
+      1500 - result.find((r) => r.id === "p3")!.newRating;
+
+    expect(loss(results)).toBeGreaterThan(loss(withoutMargin));
+    const totalChange = results.reduce(
+      (sum, result) => sum + result.newRating - 1500,
+      0,
+    );
+    expect(Math.abs(totalChange)).toBeLessThanOrEqual(1); // Allow for rounding
+  });
+
+  test("should reward underdog winners across huge rating gaps", () => {
+    const createTeam = (id: string, size: number, score: number) => ({
+      players: Array.from({ length: size }, (_, i) => ({
+        id: `${id}${i + 1}`,
+        rating: 1500,
+      })),
+      score,
+    });
+    const teamResults = calculateTeamMatch(
+      createTeam("a", 3, 4),
+      createTeam("b", 5, 1),
+      {
+        teamStrength: { model: TeamStrengthModel.SUM },
+        marginOfVictory: fiveThirtyEightMarginOfVictory,
+      },
+    );
+    const ffaResults = calculateFreeForAll(
+      [
+        { player: { id: "winner", rating: 1000 }, score: 2 },
+        { player: { id: "loser", rating: 4000 }, score: 1 },
+      ],
+      { marginOfVictory: fiveThirtyEightMarginOfVictory },
+    );
+
+    expect(teamResults.find((r) => r.id === "a1")!.newRating).toBeGreaterThan(
+      1500,
+    );
+    expect(teamResults.find((r) => r.id === "b1")!.newRating).toBeLessThan(
+      1500,
+    );
+    expect(ffaResults[0].newRating).toBeGreaterThan(1000);
+    expect(ffaResults[1].newRating).toBeLessThan(4000);
+  });
+
+  test("should pass winner rating difference from the winner's perspective", () => {
+    const contexts: { winnerRatingDifference: number }[] = [];
+
+    calculateTeamMatch(
+      teamWithScore("underdog", 1300, 3),
+      teamWithScore("favourite", 1500, 1),
+      {
+        marginOfVictory: (context) => {
+          contexts.push(context);
+          return 1;
+        },
+      },
+    );
+
+    expect(contexts).toEqual([
+      { scoreDifference: 2, winnerRatingDifference: -200 },
+      { scoreDifference: 2, winnerRatingDifference: -200 },
+    ]);
+  });
+});
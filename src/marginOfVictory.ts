@@ -0,0 +1,44 @@
+/** Caps the underdog boost so huge rating gaps cannot zero or flip the denominator */
+const MAX_AUTOCORRELATION_CORRECTION = 10;
+
+export interface MarginOfVictoryContext {
+  /** Absolute difference between the winning and losing score */
+  scoreDifference: number;
+  /** Winner's rating minus loser's rating before the match */
+  winnerRatingDifference: number;
+}
+
+export type MarginOfVictoryMultiplier = (
+  context: MarginOfVictoryContext,
+) => number;
+
+export interface LogMarginOfVictoryOptions {
+  /** default: 2.2 */
+  autocorrelationScale?: number;
+  /** default: 0.001 */
+  ratingDifferenceWeight?: number;
+}
+
+/**
+ * ln(scoreDifference + 1) * scale / (winnerRatingDifference * weight + scale).
+ * The denominator is the autocorrelation correction: favourites winning big
+ * gain less than underdogs winning big, so ratings do not inflate over time.
+ * It never drops below scale / 10, so underdogs far below the loser get at
+ * most 10 times the boost of an even match.
+ */
+export const createLogMarginOfVictory = (
+  options: LogMarginOfVictoryOptions = {},
+): MarginOfVictoryMultiplier => {
+  const autocorrelationScale = options.autocorrelationScale ?? 2.2;
+  const ratingDifferenceWeight = options.ratingDifferenceWeight ?? 0.001;
+
+  return ({ scoreDifference, winnerRatingDifference }) =>
+    (Math.log(scoreDifference + 1) * autocorrelationScale) /
+    Math.max(
+      winnerRatingDifference * ratingDifferenceWeight + autocorrelationScale,
+      autocorrelationScale / MAX_AUTOCORRELATION_CORRECTION,
+    );
+};
+
+/** FiveThirtyEight NFL Elo margin-of-victory multiplier */
+export const fiveThirtyEightMarginOfVictory = createLogMarginOfVictory();
@@ -0,0 +1,176 @@
+import {
+  calculateExpectedScore,
+  createMatchmakingQueue,
+  TeamStrengthModel,
+  type MatchmakingMatch,
+} from "./index";
+
+const createClock = () => {
+  let now = 0;
+  return {
+    clock: () => now,
+    advance: (milliseconds: number) => {
+      now += milliseconds;
+    },
+  };
+};
+
+const matchIds = (matches: MatchmakingMatch[]) =>
+  matches.map((match) =>
+    match.teams.map((team) => team.players.map((player) => player.id).sort()),
+  );
+
+describe("createMatchmakingQueue", () => {
+  test("should pair the closest-rated players first", () => {
+    const { clock } = createClock();
+    const queue = createMatchmakingQueue({ clock });
+    queue.enqueue({ id: "a", rating: 1500 });
+    queue.enqueue({ id: "b", rating: 1580 });
+    queue.enqueue({ id: "c", rating: 1520 });
+    queue.enqueue({ id: "d", rating: 1590 });
+
+    const matches = queue.findMatches();
+
+    expect(matchIds(matches)).toEqual([
+      [["b"], ["d"]],
+      [["a"], ["c"]],
+    ]);
+    expect(matches[0].expectedScore).toBeCloseTo(
+      calculateExpectedScore(1580, 1590),
+    );
+    expect(queue.getQueuedPlayers()).toEqual([]);
+  });
+
+  test("should widen the rating window the longer a player waits", () => {
+    const { clock, advance } = createClock();
+    const queue = createMatchmakingQueue({ clock });
+    queue.enqueue({ id: "a", rating: 1500 });
+    queue.enqueue({ id: "b", rating: 1700 });
+
+    expect(queue.getRatingWindow("a")).toBe(100);
+    expect(queue.findMatches()).toEqual([]);
+
+    advance(9000);
+    expect(queue.getRatingWindow("a")).toBe(190);
+    expect(queue.findMatches()).toEqual([]);
+
+    advance(1000);
+    expect(matchIds(queue.findMatches())).toEqual([[["a"], ["b"]]]);
+  });
+
+  test("should require every player to accept the rating gap", () => {
+    const { clock, advance } = createClock();
+    const queue = createMatchmakingQueue({ clock });
+    queue.enqueue({ id: "a", rating: 1500 });
+    advance(20000);
+    queue.enqueue({ id: "b", rating: 1700 });
+
+    expect(queue.getRatingWindow("a")).toBe(300);
+    expect(queue.findMatches()).toEqual([]);
+  });
+
+  test("should cap the rating window", () => {
+    const { clock, advance } = createClock();
+    const queue = createMatchmakingQueue({
+      clock,
+      initialRatingWindow: 50,
+      ratingWindowGrowth: 25,
+      maxRatingWindow: 150,
+    });
+    queue.enqueue({ id: "a", rating: 1500 });
+    advance(60000);
+
+    expect(queue.getRatingWindow("a")).toBe(150);
+  });
+
+  test("should include handicaps in the rating gap", () => {
+    const { clock } = createClock();
+    const queue = createMatchmakingQueue({ clock });
+    queue.enqueue({ id: "a", rating: 1500, handicap: 150 });
+    queue.enqueue({ id: "b", rating: 1600 });
+
+    expect(matchIds(queue.findMatches())).toEqual([[["a"], ["b"]]]);
+  });
+
+  test("should group players by the strength matches are scored with", () => {
+    const { clock } = createClock();
+    const queue = createMatchmakingQueue({
+      clock,
+      teamStrength: { model: TeamStrengthModel.SUM },
+    });
+    // Half participation halves the summed strength
+    queue.enqueue({ id: "a", rating: 3000, participation: 0.5 });
+    queue.enqueue({ id: "b", rating: 1500 });
+
+    const matches = queue.findMatches();
+
+    expect(matchIds(matches)).toEqual([[["a"], ["b"]]]);
+    expect(matches[0].expectedScore).toBe(0.5);
+  });
+
+  test("should form balanced team matches", () => {
+    const { clock } = createClock();
+    const queue = createMatchmakingQueue({
+      clock,
+      teamSize: 2,
+      initialRatingWindow: 200,
+    });
+    for (const [id, rating] of [
+      ["a", 1600],
+      ["b", 1550],
+      ["c", 1500],
+      ["d", 1450],
+      ["e", 2400],
+    ] as const) {
+      queue.enqueue({ id, rating });
+    }
+
+    const matches = queue.findMatches();
+
+    expect(matches).toHaveLength(1);
+    expect(matchIds(matches)[0]).toEqual(
+      expect.arrayContaining([
+        ["a", "d"],
+        ["b", "c"],
+      ]),
+    );
+    expect(matches[0].expectedScore).toBe(0.5);
+    expect(queue.getQueuedPlayers().map((queued) => queued.player.id)).toEqual([
+      "e",
+    ]);
+  });
+
+  test("should remove players from the queue", () => {
+    const { clock } = createClock();
+    const queue = createMatchmakingQueue({ clock });
+    queue.enqueue({ id: "a", rating: 1500 });
+    queue.enqueue({ id: "b", rating: 1500 });
+
+    expect(queue.dequeue("a")).toBe(true);
+    expect(queue.dequeue("a")).toBe(false);
+    expect(queue.findMatches()).toEqual([]);
+  });
+
+  test("should throw an error when a player is queued twice", () => {
+    const queue = createMatchmakingQueue();
+    queue.enqueue({ id: "a", rating: 1500 });
+
+    expect(() => queue.enqueue({ id: "a", rating: 1500 })).toThrow(
+      "Player with id a is already queued",
+    );
+  });
+
+  test("should throw an error for a player who is not queued", () => {
+    const queue = createMatchmakingQueue();
+
+    expect(() => queue.getRatingWindow("a")).toThrow(
+      "Player with id a is not queued",
+    );
+  });
+
+  test("should throw an error for an invalid team size", () => {
+    expect(() => createMatchmakingQueue({ teamSize: 0 })).toThrow(
+      "Team size must be a positive integer",
+    );
+  });
+});
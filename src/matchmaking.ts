@@ -0,0 +1,247 @@
+import {
+  calculateExpectedScore,
+  calculateTeamStrength,
+  type Options,
+  type Player,
+  type Team,
+} from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+import { balanceTeams } from "./teamBalance";
+
+const DEFAULT_TEAM_SIZE = 1;
+const DEFAULT_INITIAL_RATING_WINDOW = 100;
+const DEFAULT_RATING_WINDOW_GROWTH = 10;
+
+export interface MatchmakingOptions extends Options {
+  /** Players per side, default: 1 (duels) */
+  teamSize?: number;
+  /** Largest accepted rating gap for a player who just joined, default: 100 */
+  initialRatingWindow?: number;
+  /** Rating points the window grows per second of waiting, default: 10 */
+  ratingWindowGrowth?: number;
+  /** default: no limit */
+  maxRatingWindow?: number;
+  /** Current time in milliseconds, default: Date.now */
+  clock?: () => number;
+}
+
+export interface QueuedPlayer {
+  player: Player;
+  /** Clock time when the player joined the queue */
+  queuedAt: number;
+}
+
+export interface MatchmakingMatch {
+  /** Two teams; each has a single player for duels */
+  teams: Team[];
+  /** Expected score of the first team */
+  expectedScore: number;
+}
+
+/** A queued player with values fixed for one `findMatches` call */
+interface WaitingPlayer {
+  queued: QueuedPlayer;
+  /** Index in queue order */
+  position: number;
+  strength: number;
+  window: number;
+}
+
+export interface MatchmakingQueue {
+  enqueue(player: Player): void;
+  /** Returns `false` when the player was not queued */
+  dequeue(playerId: string): boolean;
+  getQueuedPlayers(): QueuedPlayer[];
+  getRatingWindow(playerId: string): number;
+  /** Forms as many matches as the current rating windows allow and removes their players from the queue */
+  findMatches(): MatchmakingMatch[];
+}
+
+/**
+ * Holds waiting players and pairs them into duels or team matches. Each
+ * player accepts opponents and teammates within a rating window that widens
+ * the longer they wait. Among acceptable groups, the one with an expected
+ * score closest to 0.5 is formed first.
+ */
+export const createMatchmakingQueue = (
+  options: MatchmakingOptions = {},
+): MatchmakingQueue => {
+  const teamSize = options.teamSize ?? DEFAULT_TEAM_SIZE;
+  if (!Number.isInteger(teamSize) || teamSize < 1) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Team size must be a positive integer",
+    );
+  }
+  const clock = options.clock ?? Date.now;
+  const initialRatingWindow =
+    options.initialRatingWindow ?? DEFAULT_INITIAL_RATING_WINDOW;
+  const ratingWindowGrowth =
+    options.ratingWindowGrowth ?? DEFAULT_RATING_WINDOW_GROWTH;
+  const maxRatingWindow = options.maxRatingWindow ?? Infinity;
+  const matchSize = teamSize * 2;
+  // Same scale as the expected score the match is scored with
+  const getStrength = (player: Player): number =>
+    calculateTeamStrength({ players: [player] }, options);
+
+  const queue = new Map<string, QueuedPlayer>();
+
+  const getQueuedPlayer = (playerId: string): QueuedPlayer => {
+    const queued = queue.get(playerId);
+    if (!queued) {
+      throw new EloNotFoundError(
+        EloErrorCode.PLAYER_NOT_FOUND,
+        `Player with id ${playerId} is not queued`,
+      );
+    }
+    return queued;
+  };
+
+  const getWindow = (queued: QueuedPlayer, now: number): number => {
+    const waitedSeconds = Math.max(now - queued.queuedAt, 0) / 1000;
+    return Math.min(
+      initialRatingWindow + ratingWindowGrowth * waitedSeconds,
+      maxRatingWindow,
+    );
+  };
+
+  /**
+   * The closest-rated players around the anchor at `anchorIndex` of the
+   * strength-sorted `waiting`, always a contiguous window, split into teams.
+   * Every member must accept the full rating spread of the group.
+   */
+  const createCandidate = (
+    waiting: WaitingPlayer[],
+    anchorIndex: number,
+    cache: Map<string, MatchmakingMatch | undefined>,
+  ): MatchmakingMatch | undefined => {
+    if (waiting.length < matchSize) {
+      return undefined;
+    }
+    const anchorStrength = waiting[anchorIndex].strength;
+    let start = anchorIndex;
+    let end = anchorIndex + 1;
+    while (end - start < matchSize) {
+      const below = waiting[start - 1];
+      const above = waiting[end];
+      const takeBelow =
+        start > 0 &&
+        (end === waiting.length ||
+          anchorStrength - below.strength < above.strength - anchorStrength ||
+          (anchorStrength - below.strength ===
+            above.strength - anchorStrength &&
+            below.position < above.position));
+      if (takeBelow) {
+        start--;
+      } else {
+        end++;
+      }
+    }
+    const group = waiting.slice(start, end);
+    // Groups untouched by a formed match are found again from the same anchors
+    const key = group.map(({ position }) => position).join(",");
+    if (cache.has(key)) {
+      return cache.get(key);
+    }
+
+    const spread = group[group.length - 1].strength - group[0].strength;
+    if (group.some(({ window }) => window < spread)) {
+      cache.set(key, undefined);
+      return undefined;
+    }
+
+    const positions = new Map(
+      group.map(({ queued, position }) => [queued.player.id, position]),
+    );
+    const position = (player: Player) => positions.get(player.id) ?? 0;
+    const players = group.map(({ queued }) => queued.player);
+    const split =
+      teamSize === 1
+        ? players.map((player) => ({ players: [player] }))
+        : balanceTeams(players, { ...options, teamCount: 2 }).teams;
+    // Queue order, so the same group found from another anchor compares equal
+    const teams = split
+      .map((team) => ({
+        players: [...team.players].sort((a, b) => position(a) - position(b)),
+      }))
+      .sort((a, b) => position(a.players[0]) - position(b.players[0]));
+    const candidate = {
+      teams,
+      expectedScore: calculateExpectedScore(teams[0], teams[1], options),
+    };
+    cache.set(key, candidate);
+    return candidate;
+  };
+
+  const findBestMatch = (
+    waiting: WaitingPlayer[],
+    cache: Map<string, MatchmakingMatch | undefined>,
+  ): MatchmakingMatch | undefined => {
+    let best: MatchmakingMatch | undefined;
+    for (let anchorIndex = 0; anchorIndex < waiting.length; anchorIndex++) {
+      const candidate = createCandidate(waiting, anchorIndex, cache);
+      if (
+        candidate &&
+        (!best ||
+          Math.abs(candidate.expectedScore - 0.5) <
+            Math.abs(best.expectedScore - 0.5))
+      ) {
+        best = candidate;
+      }
+    }
+    return best;
+  };
+
+  return {
+    enqueue(player) {
+      if (queue.has(player.id)) {
+        throw new EloValidationError(
+          EloErrorCode.DUPLICATE_PLAYER_ID,
+          `Player with id ${player.id} is already queued`,
+        );
+      }
+      queue.set(player.id, { player, queuedAt: clock() });
+    },
+    dequeue(playerId) {
+      return queue.delete(playerId);
+    },
+    getQueuedPlayers() {
+      return Array.from(queue.values());
+    },
+    getRatingWindow(playerId) {
+      return getWindow(getQueuedPlayer(playerId), clock());
+    },
+    findMatches() {
+      const now = clock();
+      // Strengths and windows are fixed for the whole call, so sort once
+      let waiting = Array.from(queue.values())
+        .map((queued, position) => ({
+          queued,
+          position,
+          strength: getStrength(queued.player),
+          window: getWindow(queued, now),
+        }))
+        .sort((a, b) => a.strength - b.strength || a.position - b.position);
+
+      const cache = new Map<string, MatchmakingMatch | undefined>();
+      const matches: MatchmakingMatch[] = [];
+      let match = findBestMatch(waiting, cache);
+      while (match) {
+        matches.push(match);
+        const matchedIds = new Set(
+          match.teams.flatMap((team) =>
+            team.players.map((player) => player.id),
+          ),
+        );
+        for (const playerId of matchedIds) {
+          queue.delete(playerId);
+        }
+        waiting = waiting.filter(
+          ({ queued }) => !matchedIds.has(queued.player.id),
+        );
+        match = findBestMatch(waiting, cache);
+      }
+      return matches;
+    },
+  };
+};
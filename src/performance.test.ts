@@ -0,0 +1,157 @@
+import {
+  calculateDuelOutcome,
+  calculateExpectedScore,
+  calculateLinearPerformanceRating,
+  calculatePerformanceRating,
+  calculateScoreForPerformance,
+  calculateScoreForRating,
+  ExpectedScoreModel,
+  RoundingMode,
+} from "./index";
+
+const games = [
+  { opponent: 1400, score: 1 },
+  { opponent: 1600, score: 0.5 },
+  { opponent: 1800, score: 0 },
+];
+
+describe("calculateLinearPerformanceRating", () => {
+  test("should add 400 per net win to the average opponent rating", () => {
+    expect(calculateLinearPerformanceRating(games)).toBe(1600);
+    expect(
+      calculateLinearPerformanceRating([
+        { opponent: 1500, score: 1 },
+        { opponent: { id: "p2", rating: 1700 }, score: 1 },
+      ]),
+    ).toBe(2000);
+  });
+
+  test("should throw error for invalid games", () => {
+    expect(() => calculateLinearPerformanceRating([])).toThrow(
+      "At least 1 game is required",
+    );
+    expect(() =>
+      calculateLinearPerformanceRating([{ opponent: 1500, score: 2 }]),
+    ).toThrow("Game score must be between 0 and 1");
+  });
+});
+
+describe("calculatePerformanceRating", () => {
+  test("should find the rating whose expected score equals the actual score", () => {
+    const performance = calculatePerformanceRating([
+      { opponent: 1500, score: 1 },
+      { opponent: 1700, score: 0 },
+      { opponent: 1600, score: 1 },
+    ]);
+
+    const expected =
+      calculateExpectedScore(performance, 1500) +
+      calculateExpectedScore(performance, 1700) +
+      calculateExpectedScore(performance, 1600);
+    expect(expected).toBeCloseTo(2, 6);
+  });
+
+  test("should equal the opponent average for a symmetric field", () => {
+    expect(calculatePerformanceRating(games)).toBeCloseTo(1600, 4);
+  });
+
+  test("should cap perfect and zero scores", () => {
+    const opponents = [1500, 1700];
+
+    expect(
+      calculatePerformanceRating(
+        opponents.map((opponent) => ({ opponent, score: 1 })),
+      ),
+    ).toBe(2500);
+    expect(
+      calculatePerformanceRating(
+        opponents.map((opponent) => ({ opponent, score: 0 })),
+      ),
+    ).toBe(700);
+  });
+
+  test("should use the configured rating scale", () => {
+    const logistic = calculatePerformanceRating([
+      { opponent: 1500, score: 1 },
+      { opponent: 1500, score: 0.5 },
+    ]);
+    const normal = calculatePerformanceRating(
+      [
+        { opponent: 1500, score: 1 },
+        { opponent: 1500, score: 0.5 },
+      ],
+      { scale: { model: ExpectedScoreModel.NORMAL } },
+    );
+
+    expect(logistic).toBeCloseTo(1690.85, 1);
+    expect(normal).not.toBeCloseTo(logistic, 1);
+  });
+});
+
+describe("calculateScoreForPerformance", () => {
+  test("should invert calculatePerformanceRating", () => {
+    const opponents = [1500, 1650, 1800, 1550];
+    const score = calculateScoreForPerformance(opponents, 1700);
+
+    const performance = calculatePerformanceRating(
+      opponents.map((opponent) => ({
+        opponent,
+        score: score / opponents.length,
+      })),
+    );
+    expect(performance).toBeCloseTo(1700, 4);
+  });
+});
+
+describe("calculateScoreForRating", () => {
+  const player = { id: "p1", rating: 1500 };
+  const opponents = [
+    { id: "p2", rating: 1500 },
+    { id: "p3", rating: 1500 },
+  ];
+
+  test("should return the score needed with a constant K-factor", () => {
+    // Expected 1 point in total, K 20: +20 needs one extra point
+    expect(
+      calculateScoreForRating(player, opponents, 1520, { kFactor: 20 }),
+    ).toBeCloseTo(2);
+    expect(calculateScoreForRating(player, opponents, 1500)).toBeCloseTo(1);
+  });
+
+  test("should reach the target when the score is played", () => {
+    const field = [
+      { id: "p2", rating: 1400 },
+      { id: "p3", rating: 1650 },
+    ];
+    const score = calculateScoreForRating(player, field, 1510);
+
+    const change = field.reduce((sum, opponent) => {
+      const [result] = calculateDuelOutcome(player, opponent, score / 2, {
+        rounding: RoundingMode.NONE,
+      });
+      return sum + result.newRating - player.rating;
+    }, 0);
+    expect(player.rating + change).toBeCloseTo(1510);
+  });
+
+  test("should report unreachable targets above the number of games", () => {
+    expect(calculateScoreForRating(player, opponents, 1600)).toBeGreaterThan(
+      opponents.length,
+    );
+  });
+
+  test("should ignore rating limits", () => {
+    expect(
+      calculateScoreForRating(player, opponents, 1520, {
+        kFactor: 20,
+        ratingLimits: { ceiling: 1505 },
+      }),
+    ).toBeCloseTo(2);
+  });
+
+  test("should throw error when ratings cannot change", () => {
+    expect(() =>
+      calculateScoreForRating(player, opponents, 1520, { kFactor: 0 }),
+    ).toThrow("K-factor must be positive to reach a target rating");
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  calculateDuelOutcome,
+  calculateExpectedScore,
+  RoundingMode,
+  type Options,
+  type Player,
+} from "./elo";
+import { EloErrorCode, EloValidationError } from "./errors";
+
+/** Rating points above (win) or below (loss) the opponent credited by the linear formula */
+const LINEAR_PERFORMANCE_SPREAD = 400;
+/** Perfect and zero scores have no finite performance, so results are capped this far beyond the field */
+const PERFORMANCE_RATING_BOUND = 800;
+const PERFORMANCE_RATING_TOLERANCE = 1e-6;
+const MAX_BISECTION_ITERATIONS = 100;
+
+export interface PerformanceGame {
+  opponent: number | Player;
+  /** 1 for a win, 0.5 for a draw, 0 for a loss */
+  score: number;
+}
+
+const getOpponentRating = (opponent: number | Player): number =>
+  typeof opponent === "number" ? opponent : opponent.rating;
+
+const validateGames = (games: PerformanceGame[]): void => {
+  if (games.length === 0) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_GAMES,
+      "At least 1 game is required",
+    );
+  }
+  for (const game of games) {
+    if (!Number.isFinite(game.score) || game.score < 0 || game.score > 1) {
+      throw new EloValidationError(
+        EloErrorCode.INVALID_SCORE,
+        "Game score must be between 0 and 1",
+      );
+    }
+  }
+};
+
+const getTotalExpectedScore = (
+  rating: number,
+  opponents: (number | Player)[],
+  options: Options,
+): number =>
+  opponents.reduce<number>(
+    (sum, opponent) => sum + calculateExpectedScore(rating, opponent, options),
+    0,
+  );
+
+/**
+ * Linear performance rating: average opponent rating + 400 * (wins - losses) / games.
+ * Draws count as half a win and half a loss.
+ */
+export const calculateLinearPerformanceRating = (
+  games: PerformanceGame[],
+): number => {
+  validateGames(games);
+
+  const averageOpponentRating =
+    games.reduce((sum, game) => sum + getOpponentRating(game.opponent), 0) /
+    games.length;
+  const netScore = games.reduce((sum, game) => sum + 2 * game.score - 1, 0);
+
+  return (
+    averageOpponentRating +
+    (LINEAR_PERFORMANCE_SPREAD * netScore) / games.length
+  );
+};
+
+/**
+ * "Perfect" performance rating: the rating whose expected score against the
+ * opponents equals the actual total score, found by bisection. Perfect and
+ * zero scores are capped 800 points beyond the strongest or weakest opponent.
+ */
+export const calculatePerformanceRating = (
+  games: PerformanceGame[],
+  options: Options = {},
+): number => {
+  validateGames(games);
+
+  const opponents = games.map((game) => game.opponent);
+  const opponentRatings = opponents.map(getOpponentRating);
+  const totalScore = games.reduce((sum, game) => sum + game.score, 0);
+
+  let low = Math.min(...opponentRatings) - PERFORMANCE_RATING_BOUND;
+  let high = Math.max(...opponentRatings) + PERFORMANCE_RATING_BOUND;
+  if (getTotalExpectedScore(low, opponents, options) >= totalScore) {
+    return low;
+  }
+  if (getTotalExpectedScore(high, opponents, options) <= totalScore) {
+    return high;
+  }
+
+  for (let i = 0; i < MAX_BISECTION_ITERATIONS; i++) {
+    const rating = (low + high) / 2;
+    if (getTotalExpectedScore(rating, opponents, options) < totalScore) {
+      low = rating;
+    } else {
+      high = rating;
+    }
+    if (high - low < PERFORMANCE_RATING_TOLERANCE) break;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Total score needed against `opponents` for a performance rating of
+ * `targetPerformance`, e.g. for a title norm.
+ */
+export const calculateScoreForPerformance = (
+  opponents: (number | Player)[],
+  targetPerformance: number,
+  options: Options = {},
+): number => getTotalExpectedScore(targetPerformance, opponents, options);
+
+/**
+ * Total score needed against `opponents` for `player` to reach `targetRating`,
+ * with every game rated from the player's rating before the event. Results
+ * below 0 mean the target is already reached, results above the number of
+ * opponents mean it is out of reach. `ratingLimits` are not applied: they
+ * clamp the change, so no single score would solve for the target.
+ */
+export const calculateScoreForRating = (
+  player: Player,
+  opponents: Player[],
+  targetRating: number,
+  options: Options = {},
+): number => {
+  if (opponents.length === 0) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_GAMES,
+      "At least 1 game is required",
+    );
+  }
+
+  const exactOptions: Options = {
+    ...options,
+    rounding: RoundingMode.NONE,
+    includeBreakdown: false,
+    ratingLimits: undefined,
+  };
+  const getChange = (opponent: Player, score: number): number => {
+    const [result] = calculateDuelOutcome(
+      player,
+      opponent,
+      score,
+      exactOptions,
+    );
+    return result.newRating - player.rating;
+  };
+
+  let changeAtZero = 0;
+  let changePerPoint = 0;
+  for (const opponent of opponents) {
+    const lossChange = getChange(opponent, 0);
+    changeAtZero += lossChange;
+    changePerPoint += getChange(opponent, 1) - lossChange;
+  }
+  // Without rating limits, changes are linear in the score, so the average slope applies to the total
+  changePerPoint /= opponents.length;
+  if (changePerPoint === 0) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_K_FACTOR,
+      "K-factor must be positive to reach a target rating",
+    );
+  }
+
+  return (targetRating - player.rating - changeAtZero) / changePerPoint;
+};
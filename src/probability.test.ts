@@ -0,0 +1,159 @@
+import {
+  calculateExpectedScore,
+  calculatePlacementProbabilities,
+  calculateWinProbabilities,
+  ExpectedScoreModel,
+  type Player,
+} from "./index";
+
+const field: Player[] = [
+  { id: "p1", rating: 1600 },
+  { id: "p2", rating: 1500 },
+  { id: "p3", rating: 1400 },
+  { id: "p4", rating: 1200 },
+];
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+describe("calculatePlacementProbabilities", () => {
+  test("should match the expected score for two entities", () => {
+    const [first, second] = calculatePlacementProbabilities(field.slice(0, 2));
+
+    expect(first.winProbability).toBeCloseTo(
+      calculateExpectedScore(field[0], field[1]),
+      10,
+    );
+    expect(second.placements[1]).toBeCloseTo(first.winProbability, 10);
+  });
+
+  test("should return complete placement distributions", () => {
+    const distributions = calculatePlacementProbabilities(field);
+
+    for (const distribution of distributions) {
+      expect(sum(distribution.placements)).toBeCloseTo(1, 10);
+    }
+    for (let position = 0; position < field.length; position++) {
+      expect(sum(distributions.map((d) => d.placements[position]))).toBeCloseTo(
+        1,
+        10,
+      );
+    }
+    expect(distributions.map((d) => d.entity)).toEqual(field);
+  });
+
+  test("should favour stronger entities", () => {
+    const distributions = calculatePlacementProbabilities(field);
+
+    const winProbabilities = distributions.map((d) => d.winProbability);
+    expect([...winProbabilities].sort((a, b) => b - a)).toEqual(
+      winProbabilities,
+    );
+    expect(distributions[3].placements[3]).toBeGreaterThan(0.5);
+  });
+
+  test("should give equal entities equal chances", () => {
+    const distributions = calculatePlacementProbabilities(
+      ["a", "b", "c"].map((id) => ({ id, rating: 1500 })),
+    );
+
+    for (const distribution of distributions) {
+      for (const probability of distribution.placements) {
+        expect(probability).toBeCloseTo(1 / 3, 10);
+      }
+    }
+  });
+
+  test("should approximate exact results with Monte Carlo simulation", () => {
+    const exact = calculatePlacementProbabilities(field);
+    const simulated = calculatePlacementProbabilities(field, {
+      maxExactEntities: 0,
+      simulations: 20000,
+    });
+
+    exact.forEach((distribution, i) => {
+      distribution.placements.forEach((probability, position) => {
+        expect(
+          Math.abs(simulated[i].placements[position] - probability),
+        ).toBeLessThan(0.02);
+      });
+    });
+  });
+
+  test("should be reproducible from a seed", () => {
+    const options = { maxExactEntities: 0, simulations: 500, seed: 42 };
+
+    expect(calculatePlacementProbabilities(field, options)).toEqual(
+      calculatePlacementProbabilities(field, options),
+    );
+    expect(calculatePlacementProbabilities(field, options)).not.toEqual(
+      calculatePlacementProbabilities(field, { ...options, seed: 7 }),
+    );
+  });
+
+  test("should simulate the normal model", () => {
+    const options = {
+      scale: { model: ExpectedScoreModel.NORMAL },
+      simulations: 20000,
+    };
+
+    const [first] = calculatePlacementProbabilities(field.slice(0, 2), options);
+
+    expect(
+      Math.abs(
+        first.winProbability -
+          calculateExpectedScore(field[0], field[1], options),
+      ),
+    ).toBeLessThan(0.02);
+  });
+
+  test("should accept teams with home advantage", () => {
+    const teams = [
+      { players: [field[0], field[3]] },
+      { players: [field[1], field[2]], home: true },
+      { players: [{ id: "p5", rating: 1450 }] },
+    ];
+
+    const [away, home] = calculatePlacementProbabilities(teams, {
+      homeAdvantage: 100,
+    });
+
+    expect(home.winProbability).toBeGreaterThan(away.winProbability);
+  });
+
+  test("should throw error for fields smaller than two", () => {
+    expect(() => calculatePlacementProbabilities([field[0]])).toThrow(
+      "At least 2 entities are required",
+    );
+  });
+
+  test("should throw error for an exact field limit above 16", () => {
+    expect(() =>
+      calculatePlacementProbabilities(field, { maxExactEntities: 30 }),
+    ).toThrow("Max exact entities must be between 0 and 16");
+  });
+});
+
+describe("calculateWinProbabilities", () => {
+  test("should equal exact first-place probabilities", () => {
+    const winProbabilities = calculateWinProbabilities(field);
+
+    calculatePlacementProbabilities(field).forEach((distribution, i) => {
+      expect(winProbabilities[i]).toBeCloseTo(distribution.winProbability, 10);
+    });
+  });
+
+  test("should stay exact for large fields", () => {
+    const largeField = Array.from({ length: 50 }, (_, i) => ({
+      id: `p${i}`,
+      rating: 1000 + i * 10,
+    }));
+
+    const winProbabilities = calculateWinProbabilities(largeField);
+
+    expect(sum(winProbabilities)).toBeCloseTo(1, 10);
+    expect(winProbabilities[49] / winProbabilities[48]).toBeCloseTo(
+      Math.pow(10, 10 / 400),
+      10,
+    );
+  });
+});
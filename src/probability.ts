@@ -0,0 +1,213 @@
+import {
+  calculateExpectedScore,
+  ExpectedScoreModel,
+  type Options,
+  type Player,
+  type Team,
+} from "./elo";
+import { EloErrorCode, EloValidationError } from "./errors";
+import { inverseNormalCumulativeDistribution } from "./gaussian";
+import {
+  createRandom,
+  sampleGumbel,
+  sampleStandardNormal,
+  type RandomSource,
+} from "./random";
+
+const DEFAULT_MAX_EXACT_ENTITIES = 8;
+/** The exact solver keeps 2^N set probabilities */
+const MAX_EXACT_ENTITIES_LIMIT = 16;
+const DEFAULT_SIMULATIONS = 10000;
+const DEFAULT_SEED = 1;
+
+export interface PlacementOptions extends Options {
+  /** Largest field solved exactly with the logistic model, at most 16, default: 8 */
+  maxExactEntities?: number;
+  /** Monte Carlo iterations for larger fields and the normal model, default: 10000 */
+  simulations?: number;
+  /** default: 1 */
+  seed?: number;
+}
+
+export interface PlacementDistribution {
+  entity: Player | Team;
+  winProbability: number;
+  /** Probability of finishing in each position, first place at index 0 */
+  placements: number[];
+}
+
+/** Field strengths on the model's own scale, relative to the strongest entity */
+interface FieldStrengths {
+  model: ExpectedScoreModel;
+  /** Plackett-Luce weights for LOGISTIC, probit offsets for NORMAL */
+  values: number[];
+}
+
+const getFieldStrengths = (
+  entities: (Player | Team)[],
+  options: Options,
+): FieldStrengths => {
+  const strongest = entities.reduce((best, entity) =>
+    calculateExpectedScore(entity, best, options) > 0.5 ? entity : best,
+  );
+  const expectedScores = entities.map((entity) =>
+    calculateExpectedScore(entity, strongest, options),
+  );
+
+  if (options.scale?.model === ExpectedScoreModel.NORMAL) {
+    return {
+      model: ExpectedScoreModel.NORMAL,
+      values: expectedScores.map(inverseNormalCumulativeDistribution),
+    };
+  }
+  // Logistic expected scores are w_i / (w_i + w_j), so the odds against a common reference are the weights
+  return {
+    model: ExpectedScoreModel.LOGISTIC,
+    values: expectedScores.map((expected) => expected / (1 - expected)),
+  };
+};
+
+const countBits = (size: number): number[] => {
+  const bitCounts = [0];
+  for (let mask = 1; mask < size; mask++) {
+    bitCounts.push(bitCounts[mask >> 1] + (mask & 1));
+  }
+  return bitCounts;
+};
+
+/**
+ * Exact Plackett-Luce placements by dynamic programming over the set of
+ * entities already placed: each remaining entity takes the next position with
+ * probability proportional to its weight.
+ */
+const calculateExactPlacements = (weights: number[]): number[][] => {
+  const count = weights.length;
+  const size = 1 << count;
+  const bitCounts = countBits(size);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const placements = weights.map(() => new Array<number>(count).fill(0));
+  const setProbabilities = new Array<number>(size).fill(0);
+  setProbabilities[0] = 1;
+
+  for (let placed = 0; placed < size - 1; placed++) {
+    const probability = setProbabilities[placed];
+    if (probability === 0) continue;
+
+    let remainingWeight = totalWeight;
+    for (let i = 0; i < count; i++) {
+      if (placed & (1 << i)) remainingWeight -= weights[i];
+    }
+    const remainingCount = count - bitCounts[placed];
+
+    for (let i = 0; i < count; i++) {
+      if (placed & (1 << i)) continue;
+      const share =
+        remainingWeight > 0 ? weights[i] / remainingWeight : 1 / remainingCount;
+      placements[i][bitCounts[placed]] += probability * share;
+      setProbabilities[placed | (1 << i)] += probability * share;
+    }
+  }
+  return placements;
+};
+
+/**
+ * Samples performances and ranks them: Gumbel noise on log-weights reproduces
+ * Plackett-Luce, normal noise with variance 1/2 per entity reproduces the
+ * normal model's pairwise probabilities.
+ */
+const simulatePlacements = (
+  strengths: FieldStrengths,
+  simulations: number,
+  random: RandomSource,
+): number[][] => {
+  const count = strengths.values.length;
+  const placements = strengths.values.map(() =>
+    new Array<number>(count).fill(0),
+  );
+  const samplePerformance =
+    strengths.model === ExpectedScoreModel.NORMAL
+      ? (value: number) => value + Math.SQRT1_2 * sampleStandardNormal(random)
+      : (value: number) => Math.log(value) + sampleGumbel(random);
+
+  for (let simulation = 0; simulation < simulations; simulation++) {
+    const performances = strengths.values.map(samplePerformance);
+    const ranking = performances
+      .map((_, index) => index)
+      .sort((a, b) => performances[b] - performances[a]);
+    ranking.forEach((entityIndex, position) => {
+      placements[entityIndex][position] += 1 / simulations;
+    });
+  }
+  return placements;
+};
+
+/**
+ * Probability of each entity finishing in each position of an N-way field,
+ * consistent with `calculateExpectedScore` for every pair. Logistic fields up
+ * to `maxExactEntities` are solved exactly with the Plackett-Luce model, larger
+ * fields and the normal model use seeded Monte Carlo simulation.
+ */
+export const calculatePlacementProbabilities = (
+  entities: (Player | Team)[],
+  options: PlacementOptions = {},
+): PlacementDistribution[] => {
+  if (entities.length < 2) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_ENTITIES,
+      "At least 2 entities are required",
+    );
+  }
+
+  const maxExactEntities =
+    options.maxExactEntities ?? DEFAULT_MAX_EXACT_ENTITIES;
+  if (
+    !(maxExactEntities >= 0 && maxExactEntities <= MAX_EXACT_ENTITIES_LIMIT)
+  ) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      `Max exact entities must be between 0 and ${MAX_EXACT_ENTITIES_LIMIT}`,
+    );
+  }
+
+  const strengths = getFieldStrengths(entities, options);
+  const placements =
+    strengths.model === ExpectedScoreModel.LOGISTIC &&
+    entities.length <= maxExactEntities
+      ? calculateExactPlacements(strengths.values)
+      : simulatePlacements(
+          strengths,
+          options.simulations ?? DEFAULT_SIMULATIONS,
+          createRandom(options.seed ?? DEFAULT_SEED),
+        );
+
+  return entities.map((entity, index) => ({
+    entity,
+    winProbability: placements[index][0],
+    placements: placements[index],
+  }));
+};
+
+/**
+ * Probability of each entity finishing first. Exact for the logistic model at
+ * any field size, simulated for the normal model.
+ */
+export const calculateWinProbabilities = (
+  entities: (Player | Team)[],
+  options: PlacementOptions = {},
+): number[] => {
+  if (entities.length < 2) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_ENTITIES,
+      "At least 2 entities are required",
+    );
+  }
+
+  const strengths = getFieldStrengths(entities, options);
+  if (strengths.model === ExpectedScoreModel.NORMAL) {
+    return calculatePlacementProbabilities(entities, options).map(
+      (distribution) => distribution.winProbability,
+    );
+  }
+  const totalWeight = strengths.values.reduce((sum, weight) => sum + weight, 0);
+  return strengths.values.map((weight) => weight / totalWeight);
+};
@@ -0,0 +1,21 @@
+/** Uniform random numbers in [0, 1) */
+export type RandomSource = () => number;
+
+/** Mulberry32: a small, fast 32-bit generator, so simulations are reproducible from a seed */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Box-Muller transform */
+export const sampleStandardNormal = (random: RandomSource): number =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+export const sampleGumbel = (random: RandomSource): number =>
+  -Math.log(-Math.log(random() || Number.MIN_VALUE));
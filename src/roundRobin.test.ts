@@ -0,0 +1,86 @@
+import { createRoundRobinSchedule, type Player } from "./index";
+
+const createPlayers = (count: number): Player[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `p${i + 1}`,
+    rating: 1000 + i * 50,
+  }));
+
+const pairKey = (a: string, b: string) => [a, b].sort().join("-");
+
+describe("createRoundRobinSchedule", () => {
+  test("should pair everyone exactly once", () => {
+    const players = createPlayers(8);
+    const rounds = createRoundRobinSchedule(players);
+
+    expect(rounds).toHaveLength(7);
+    const pairs = rounds.flatMap((round) =>
+      round.fixtures.map((f) => pairKey(f.playerId, f.opponentId)),
+    );
+    expect(new Set(pairs).size).toBe(28);
+    for (const round of rounds) {
+      const ids = round.fixtures.flatMap((f) => [f.playerId, f.opponentId]);
+      expect(new Set(ids).size).toBe(8);
+    }
+  });
+
+  test("should seed by rating", () => {
+    const [firstRound] = createRoundRobinSchedule(createPlayers(4));
+
+    // Highest seed p4 meets lowest seed p1 on the first board
+    expect(firstRound.fixtures[0]).toEqual({
+      playerId: "p4",
+      opponentId: "p1",
+      homePlayerId: "p4",
+    });
+  });
+
+  test("should balance home and away games", () => {
+    for (const count of [3, 5, 7, 9, 10, 11]) {
+      const players = createPlayers(count);
+      const rounds = createRoundRobinSchedule(players);
+
+      const homeCounts = players.map(
+        (player) =>
+          rounds
+            .flatMap((round) => round.fixtures)
+            .filter((fixture) => fixture.homePlayerId === player.id).length,
+      );
+      // Everyone plays an even number of games in odd fields
+      expect(Math.max(...homeCounts) - Math.min(...homeCounts)).toBe(
+        count % 2 === 1 ? 0 : 1,
+      );
+    }
+  });
+
+  test("should rest one player per round with an odd number of players", () => {
+    const rounds = createRoundRobinSchedule(createPlayers(5));
+
+    expect(rounds).toHaveLength(5);
+    expect(new Set(rounds.map((round) => round.byePlayerId)).size).toBe(5);
+    for (const round of rounds) {
+      expect(round.fixtures).toHaveLength(2);
+    }
+  });
+
+  test("should swap home and away in the second half of a double round-robin", () => {
+    const rounds = createRoundRobinSchedule(createPlayers(4), {
+      doubleRoundRobin: true,
+    });
+
+    expect(rounds).toHaveLength(6);
+    rounds.slice(0, 3).forEach((round, i) => {
+      round.fixtures.forEach((fixture, board) => {
+        const returnFixture = rounds[i + 3].fixtures[board];
+        expect(returnFixture.playerId).toBe(fixture.opponentId);
+        expect(returnFixture.homePlayerId).toBe(fixture.opponentId);
+      });
+    });
+  });
+
+  test("should throw error for fewer than two players", () => {
+    expect(() => createRoundRobinSchedule(createPlayers(1))).toThrow(
+      "At least 2 players are required",
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import type { Player } from "./elo";
+import { EloErrorCode, EloValidationError } from "./errors";
+import type { SeasonFixture } from "./simulation";
+
+export interface RoundRobinOptions {
+  /** Every pairing is played twice with home and away swapped, default: false */
+  doubleRoundRobin?: boolean;
+}
+
+export interface RoundRobinRound {
+  /** The home player is `playerId`, also set as `homePlayerId` */
+  fixtures: SeasonFixture[];
+  byePlayerId?: string;
+}
+
+const createFixture = (homeId: string, awayId: string): SeasonFixture => ({
+  playerId: homeId,
+  opponentId: awayId,
+  homePlayerId: homeId,
+});
+
+/**
+ * Circle method: the first slot stays in place while everyone else rotates.
+ * It alternates home and away each round and the other boards alternate by
+ * position, so home counts differ by at most one. With an odd number of
+ * players the fixed slot is the bye, so the player resting rotates and every
+ * player gets the same number of home games.
+ */
+export const createRoundRobinSchedule = (
+  players: Player[],
+  options: RoundRobinOptions = {},
+): RoundRobinRound[] => {
+  if (players.length < 2) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_PLAYERS,
+      "At least 2 players are required",
+    );
+  }
+
+  const seeded: (string | null)[] = [...players]
+    .sort((a, b) => b.rating - a.rating)
+    .map((player) => player.id);
+  if (seeded.length % 2 === 1) {
+    seeded.unshift(null);
+  }
+
+  const [fixed, ...rotating] = seeded;
+  const rounds: RoundRobinRound[] = [];
+
+  for (let round = 0; round < seeded.length - 1; round++) {
+    const order = [fixed, ...rotating];
+    const result: RoundRobinRound = { fixtures: [] };
+
+    for (let board = 0; board < order.length / 2; board++) {
+      const first = order[board];
+      const second = order[order.length - 1 - board];
+      if (first === null || second === null) {
+        result.byePlayerId = first ?? second ?? undefined;
+        continue;
+      }
+      const swapHome = board === 0 ? round % 2 === 1 : board % 2 === 1;
+      result.fixtures.push(
+        swapHome ? createFixture(second, first) : createFixture(first, second),
+      );
+    }
+
+    rounds.push(result);
+    rotating.unshift(rotating.pop() ?? null);
+  }
+
+  if (!options.doubleRoundRobin) {
+    return rounds;
+  }
+  const returnRounds = rounds.map((round) => ({
+    ...round,
+    fixtures: round.fixtures.map((fixture) =>
+      createFixture(fixture.opponentId, fixture.playerId),
+    ),
+  }));
+  return [...rounds, ...returnRounds];
+};
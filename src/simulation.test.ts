@@ -0,0 +1,154 @@
+import {
+  calculateExpectedScore,
+  simulateKnockout,
+  simulateSeason,
+  type SeasonFixture,
+  type SeasonStanding,
+} from "./index";
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+const standings: SeasonStanding[] = [
+  { player: { id: "a", rating: 1600 }, points: 3 },
+  { player: { id: "b", rating: 1500 }, points: 3 },
+  { player: { id: "c", rating: 1450 }, points: 2 },
+  { player: { id: "d", rating: 1300 }, points: 0 },
+];
+
+const roundRobin: SeasonFixture[] = [
+  { playerId: "a", opponentId: "b" },
+  { playerId: "c", opponentId: "d" },
+  { playerId: "a", opponentId: "c" },
+  { playerId: "b", opponentId: "d" },
+  { playerId: "a", opponentId: "d" },
+  { playerId: "b", opponentId: "c" },
+];
+
+describe("simulateSeason", () => {
+  test("should return complete position distributions", () => {
+    const forecasts = simulateSeason(standings, roundRobin, {
+      simulations: 2000,
+    });
+
+    expect(forecasts.map((f) => f.id)).toEqual(["a", "b", "c", "d"]);
+    for (const forecast of forecasts) {
+      expect(sum(forecast.positions)).toBeCloseTo(1, 6);
+    }
+    for (let position = 0; position < standings.length; position++) {
+      expect(sum(forecasts.map((f) => f.positions[position]))).toBeCloseTo(
+        1,
+        6,
+      );
+    }
+    expect(forecasts[0].positions[0]).toBeGreaterThan(
+      forecasts[3].positions[0],
+    );
+  });
+
+  test("should be reproducible from a seed", () => {
+    const options = { simulations: 200, seed: 42 };
+
+    expect(simulateSeason(standings, roundRobin, options)).toEqual(
+      simulateSeason(standings, roundRobin, options),
+    );
+    expect(simulateSeason(standings, roundRobin, options)).not.toEqual(
+      simulateSeason(standings, roundRobin, { ...options, seed: 7 }),
+    );
+  });
+
+  test("should rank by current points when no fixtures remain", () => {
+    const forecasts = simulateSeason(standings, [], { simulations: 2000 });
+
+    expect(forecasts[2].positions).toEqual([0, 0, 1, 0]);
+    expect(forecasts[3].positions).toEqual([0, 0, 0, 1]);
+    // a and b are level on points and share the top two positions at random
+    expect(forecasts[0].positions[0]).toBeGreaterThan(0.4);
+    expect(forecasts[0].positions[0]).toBeLessThan(0.6);
+    expect(forecasts[0].expectedPoints).toBeCloseTo(3, 6);
+  });
+
+  test("should draw results from expected scores", () => {
+    const fixtures = Array.from({ length: 10 }, () => ({
+      playerId: "a",
+      opponentId: "d",
+    }));
+
+    const [a, d] = simulateSeason(
+      [
+        { player: { id: "a", rating: 1600 }, points: 0 },
+        { player: { id: "d", rating: 1300 }, points: 0 },
+      ],
+      fixtures,
+      { simulations: 4000, updateRatings: false },
+    );
+
+    const expected = calculateExpectedScore(1600, 1300) * 10;
+    expect(Math.abs(a.expectedPoints - expected)).toBeLessThan(0.1);
+    expect(a.expectedPoints + d.expectedPoints).toBeCloseTo(10, 6);
+  });
+
+  test("should award configured points for draws", () => {
+    const [a, b] = simulateSeason(
+      [
+        { player: { id: "a", rating: 1500 }, points: 0 },
+        { player: { id: "b", rating: 1500 }, points: 0 },
+      ],
+      [{ playerId: "a", opponentId: "b", homePlayerId: "b" }],
+      {
+        simulations: 100,
+        drawProbability: 1,
+        points: { win: 3, draw: 1, loss: 0 },
+      },
+    );
+
+    expect(a.expectedPoints).toBeCloseTo(1, 6);
+    expect(b.expectedPoints).toBeCloseTo(1, 6);
+  });
+
+  test("should throw error for fixtures with unknown players", () => {
+    expect(() =>
+      simulateSeason(standings, [{ playerId: "a", opponentId: "x" }]),
+    ).toThrow("Player with id x not found");
+  });
+});
+
+describe("simulateKnockout", () => {
+  const players = [
+    { id: "p1", rating: 1800 },
+    { id: "p2", rating: 1400 },
+    { id: "p3", rating: 1600 },
+  ];
+
+  test("should return round distributions with byes", () => {
+    const forecasts = simulateKnockout(
+      [players[0], null, players[1], players[2]],
+      {
+        simulations: 2000,
+      },
+    );
+
+    expect(forecasts.map((f) => f.id)).toEqual(["p1", "p2", "p3"]);
+    expect(forecasts[0].rounds.slice(0, 2)).toEqual([1, 1]);
+    expect(forecasts[1].rounds[1] + forecasts[2].rounds[1]).toBeCloseTo(1, 6);
+    expect(sum(forecasts.map((f) => f.winProbability))).toBeCloseTo(1, 6);
+    expect(forecasts[0].winProbability).toBe(forecasts[0].rounds[2]);
+  });
+
+  test("should match the expected score in a final", () => {
+    const [first] = simulateKnockout(players.slice(0, 2), {
+      simulations: 4000,
+    });
+
+    expect(
+      Math.abs(
+        first.winProbability - calculateExpectedScore(players[0], players[1]),
+      ),
+    ).toBeLessThan(0.02);
+  });
+
+  test("should throw error when the bracket size is not a power of two", () => {
+    expect(() => simulateKnockout(players)).toThrow(
+      "Bracket size must be a power of two",
+    );
+  });
+});
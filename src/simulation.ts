@@ -0,0 +1,289 @@
+import {
+  calculateDuelOutcome,
+  calculateExpectedScore,
+  DuelOutcome,
+  type Options,
+  type Player,
+} from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+import { createRandom, type RandomSource } from "./random";
+
+const DEFAULT_SIMULATIONS = 10000;
+const DEFAULT_SEED = 1;
+
+export interface SeasonStanding {
+  player: Player;
+  /** Points already earned this season */
+  points: number;
+}
+
+export interface SeasonFixture {
+  playerId: string;
+  opponentId: string;
+  homePlayerId?: string;
+}
+
+export interface SeasonPoints {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
+export interface SimulationOptions extends Options {
+  /** default: 10000 */
+  simulations?: number;
+  /** default: 1 */
+  seed?: number;
+  /** Apply rating updates after each simulated match, default: true */
+  updateRatings?: boolean;
+}
+
+export interface SeasonSimulationOptions extends SimulationOptions {
+  /** Draw probability between evenly matched players, shrinking as the mismatch grows, default: 0 */
+  drawProbability?: number;
+  /** default: { win: 1, draw: 0.5, loss: 0 } */
+  points?: SeasonPoints;
+}
+
+export interface SeasonForecast {
+  id: string;
+  expectedPoints: number;
+  /** Probability of each final position, first place at index 0 */
+  positions: number[];
+}
+
+export interface KnockoutForecast {
+  id: string;
+  winProbability: number;
+  /** Probability of reaching each round, index 0 is the first round and the last index is winning the bracket */
+  rounds: number[];
+}
+
+type PlayerTable = Map<string, Player>;
+
+const getPlayer = (table: PlayerTable, playerId: string): Player => {
+  const player = table.get(playerId);
+  if (!player) {
+    throw new EloNotFoundError(
+      EloErrorCode.PLAYER_NOT_FOUND,
+      `Player with id ${playerId} not found`,
+    );
+  }
+  return player;
+};
+
+/**
+ * Draws take probability mass evenly from both sides, so the expected score
+ * of the simulated result still equals `calculateExpectedScore`.
+ */
+const sampleOutcome = (
+  expectedScore: number,
+  drawProbability: number,
+  random: RandomSource,
+): DuelOutcome => {
+  const draw = drawProbability * 2 * Math.min(expectedScore, 1 - expectedScore);
+  const value = random();
+  if (value < expectedScore - draw / 2) return DuelOutcome.WIN;
+  if (value < expectedScore + draw / 2) return DuelOutcome.DRAW;
+  return DuelOutcome.LOSS;
+};
+
+const playMatch = (
+  table: PlayerTable,
+  player: Player,
+  opponent: Player,
+  drawProbability: number,
+  random: RandomSource,
+  options: SimulationOptions,
+): DuelOutcome => {
+  const outcome = sampleOutcome(
+    calculateExpectedScore(player, opponent, options),
+    drawProbability,
+    random,
+  );
+
+  if (options.updateRatings ?? true) {
+    for (const result of calculateDuelOutcome(
+      player,
+      opponent,
+      outcome,
+      options,
+    )) {
+      const current = getPlayer(table, result.id);
+      table.set(result.id, {
+        ...current,
+        rating: result.newRating,
+        gamesPlayed:
+          current.gamesPlayed === undefined
+            ? undefined
+            : current.gamesPlayed + 1,
+      });
+    }
+  }
+  return outcome;
+};
+
+const getPoints = (outcome: DuelOutcome, points: SeasonPoints): number => {
+  switch (outcome) {
+    case DuelOutcome.WIN:
+      return points.win;
+    case DuelOutcome.DRAW:
+      return points.draw;
+    case DuelOutcome.LOSS:
+      return points.loss;
+  }
+};
+
+const getOppositeOutcome = (outcome: DuelOutcome): DuelOutcome => {
+  switch (outcome) {
+    case DuelOutcome.WIN:
+      return DuelOutcome.LOSS;
+    case DuelOutcome.DRAW:
+      return DuelOutcome.DRAW;
+    case DuelOutcome.LOSS:
+      return DuelOutcome.WIN;
+  }
+};
+
+/**
+ * Simulates the remaining fixtures of a season many times. Each result is
+ * drawn from `calculateExpectedScore` with the ratings at that point, and
+ * ratings drift through `calculateDuelOutcome` between fixtures. Players
+ * level on points share positions at random.
+ */
+export const simulateSeason = (
+  standings: SeasonStanding[],
+  fixtures: SeasonFixture[],
+  options: SeasonSimulationOptions = {},
+): SeasonForecast[] => {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const drawProbability = options.drawProbability ?? 0;
+  const points = options.points ?? { win: 1, draw: 0.5, loss: 0 };
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+
+  const forecasts = standings.map(({ player }) => ({
+    id: player.id,
+    expectedPoints: 0,
+    positions: new Array<number>(standings.length).fill(0),
+  }));
+  const indexById = new Map(
+    standings.map(({ player }, index) => [player.id, index]),
+  );
+
+  for (let simulation = 0; simulation < simulations; simulation++) {
+    const table: PlayerTable = new Map(
+      standings.map(({ player }) => [player.id, player]),
+    );
+    const seasonPoints = new Map(
+      standings.map(({ player, points }) => [player.id, points]),
+    );
+
+    for (const fixture of fixtures) {
+      const player = getPlayer(table, fixture.playerId);
+      const opponent = getPlayer(table, fixture.opponentId);
+      const outcome = playMatch(
+        table,
+        { ...player, home: player.id === fixture.homePlayerId },
+        { ...opponent, home: opponent.id === fixture.homePlayerId },
+        drawProbability,
+        random,
+        options,
+      );
+      seasonPoints.set(
+        player.id,
+        (seasonPoints.get(player.id) ?? 0) + getPoints(outcome, points),
+      );
+      seasonPoints.set(
+        opponent.id,
+        (seasonPoints.get(opponent.id) ?? 0) +
+          getPoints(getOppositeOutcome(outcome), points),
+      );
+    }
+
+    const tiebreakers = new Map(
+      standings.map(({ player }) => [player.id, random()]),
+    );
+    const finalTable = Array.from(seasonPoints.entries()).sort(
+      ([idA, pointsA], [idB, pointsB]) =>
+        pointsB - pointsA ||
+        (tiebreakers.get(idA) ?? 0) - (tiebreakers.get(idB) ?? 0),
+    );
+    finalTable.forEach(([id, finalPoints], position) => {
+      const forecast = forecasts[indexById.get(id) ?? -1];
+      forecast.expectedPoints += finalPoints;
+      forecast.positions[position] += 1;
+    });
+  }
+
+  return forecasts.map((forecast) => ({
+    id: forecast.id,
+    expectedPoints: forecast.expectedPoints / simulations,
+    positions: forecast.positions.map((count) => count / simulations),
+  }));
+};
+
+/**
+ * Simulates a single-elimination bracket many times. `bracket` lists players
+ * in bracket order with a power-of-two length: the first round pairs
+ * neighbours, and `null` entries are byes.
+ */
+export const simulateKnockout = (
+  bracket: (Player | null)[],
+  options: SimulationOptions = {},
+): KnockoutForecast[] => {
+  const roundCount = Math.log2(bracket.length);
+  if (bracket.length < 2 || !Number.isInteger(roundCount)) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Bracket size must be a power of two",
+    );
+  }
+
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const players = bracket.filter((player): player is Player => player !== null);
+  const roundCounts = players.map(() =>
+    new Array<number>(roundCount + 1).fill(0),
+  );
+  const indexById = new Map(players.map((player, index) => [player.id, index]));
+  const recordRound = (playerId: string | null, round: number): void => {
+    if (playerId !== null) {
+      roundCounts[indexById.get(playerId) ?? -1][round] += 1;
+    }
+  };
+
+  for (let simulation = 0; simulation < simulations; simulation++) {
+    const table: PlayerTable = new Map(
+      players.map((player) => [player.id, player]),
+    );
+    let remaining = bracket.map((player) => player?.id ?? null);
+    remaining.forEach((id) => recordRound(id, 0));
+
+    for (let round = 1; round <= roundCount; round++) {
+      const winners: (string | null)[] = [];
+      for (let i = 0; i < remaining.length; i += 2) {
+        const [firstId, secondId] = [remaining[i], remaining[i + 1]];
+        if (firstId === null || secondId === null) {
+          winners.push(firstId ?? secondId);
+          continue;
+        }
+        const outcome = playMatch(
+          table,
+          getPlayer(table, firstId),
+          getPlayer(table, secondId),
+          0,
+          random,
+          options,
+        );
+        winners.push(outcome === DuelOutcome.WIN ? firstId : secondId);
+      }
+      winners.forEach((id) => recordRound(id, round));
+      remaining = winners;
+    }
+  }
+
+  return players.map((player, index) => {
+    const rounds = roundCounts[index].map((count) => count / simulations);
+    return { id: player.id, winProbability: rounds[roundCount], rounds };
+  });
+};
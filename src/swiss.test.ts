@@ -0,0 +1,194 @@
+import {
+  applySwissRound,
+  calculateDuel,
+  calculateSwissStandings,
+  Color,
+  DuelOutcome,
+  pairSwissRound,
+  type Player,
+  type SwissRound,
+  type SwissRoundResult,
+} from "./index";
+
+const createPlayers = (count: number): Player[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `p${i + 1}`,
+    rating: 2000 - i * 50,
+  }));
+
+/** Higher-rated player wins every game */
+const playRound = (players: Player[], round: SwissRound): SwissRoundResult => {
+  const rating = (id: string) => players.find((p) => p.id === id)!.rating;
+  return {
+    games: round.pairings.map((pairing) => ({
+      ...pairing,
+      outcome:
+        rating(pairing.whiteId) > rating(pairing.blackId)
+          ? DuelOutcome.WIN
+          : DuelOutcome.LOSS,
+    })),
+    byePlayerId: round.byePlayerId,
+  };
+};
+
+const pairKey = (whiteId: string, blackId: string) =>
+  [whiteId, blackId].sort().join("-");
+
+describe("pairSwissRound", () => {
+  test("should pair the top half against the bottom half in round one", () => {
+    const round = pairSwissRound(createPlayers(8));
+
+    expect(round.pairings).toEqual([
+      { whiteId: "p1", blackId: "p5" },
+      { whiteId: "p6", blackId: "p2" },
+      { whiteId: "p3", blackId: "p7" },
+      { whiteId: "p8", blackId: "p4" },
+    ]);
+    expect(round.byePlayerId).toBeUndefined();
+  });
+
+  test("should pair within score groups", () => {
+    const players = createPlayers(8);
+    const history = [playRound(players, pairSwissRound(players))];
+
+    const round = pairSwissRound(players, history);
+
+    const winners = ["p1", "p2", "p3", "p4"];
+    for (const { whiteId, blackId } of round.pairings) {
+      expect(winners.includes(whiteId)).toBe(winners.includes(blackId));
+    }
+  });
+
+  test("should alternate colors", () => {
+    const players = createPlayers(4);
+    const history = [playRound(players, pairSwissRound(players))];
+
+    const round = pairSwissRound(players, history);
+
+    // p1 had white and p2 had black in round one
+    expect(round.pairings[0]).toEqual({ whiteId: "p2", blackId: "p1" });
+  });
+
+  test("should never repeat opponents", () => {
+    const players = createPlayers(6);
+    const history: SwissRoundResult[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 0; i < 5; i++) {
+      const round = pairSwissRound(players, history);
+      for (const { whiteId, blackId } of round.pairings) {
+        const key = pairKey(whiteId, blackId);
+        expect(seen.has(key)).toBe(false);
+        seen.add(key);
+      }
+      history.push(playRound(players, round));
+    }
+    expect(seen.size).toBe(15);
+  });
+
+  test("should give the bye to the lowest-ranked player without one", () => {
+    const players = createPlayers(5);
+
+    const first = pairSwissRound(players);
+    const second = pairSwissRound(players, [playRound(players, first)]);
+
+    expect(first.byePlayerId).toBe("p5");
+    expect(first.pairings).toHaveLength(2);
+    expect(second.byePlayerId).toBe("p4");
+  });
+
+  test("should give a player the color they must receive", () => {
+    const players = createPlayers(6);
+    const history: SwissRoundResult[] = [
+      {
+        games: [
+          { whiteId: "p3", blackId: "p1", outcome: DuelOutcome.LOSS },
+          { whiteId: "p2", blackId: "p4", outcome: DuelOutcome.WIN },
+          { whiteId: "p5", blackId: "p6", outcome: DuelOutcome.DRAW },
+        ],
+      },
+      {
+        games: [
+          { whiteId: "p1", blackId: "p4", outcome: DuelOutcome.WIN },
+          { whiteId: "p5", blackId: "p2", outcome: DuelOutcome.LOSS },
+          { whiteId: "p6", blackId: "p3", outcome: DuelOutcome.DRAW },
+        ],
+      },
+      {
+        games: [
+          { whiteId: "p1", blackId: "p5", outcome: DuelOutcome.WIN },
+          { whiteId: "p2", blackId: "p6", outcome: DuelOutcome.WIN },
+          { whiteId: "p4", blackId: "p3", outcome: DuelOutcome.DRAW },
+        ],
+      },
+    ];
+
+    const round = pairSwissRound(players, history);
+
+    // p1 has B, W, W and must get black; p2 has W, B, W and may take white
+    expect(round.pairings).toContainEqual({ whiteId: "p2", blackId: "p1" });
+  });
+
+  test("should throw error when no pairing is possible", () => {
+    const players = createPlayers(2);
+    const history = [playRound(players, pairSwissRound(players))];
+
+    expect(() => pairSwissRound(players, history)).toThrow(
+      "No valid Swiss pairing exists",
+    );
+  });
+});
+
+describe("calculateSwissStandings", () => {
+  test("should rank by score and then rating", () => {
+    const players = createPlayers(3);
+    const standings = calculateSwissStandings(
+      players,
+      [
+        {
+          games: [{ whiteId: "p1", blackId: "p2", outcome: DuelOutcome.DRAW }],
+          byePlayerId: "p3",
+        },
+      ],
+      { byePoints: 0.5 },
+    );
+
+    expect(standings.map((s) => [s.player.id, s.score])).toEqual([
+      ["p1", 0.5],
+      ["p2", 0.5],
+      ["p3", 0.5],
+    ]);
+    expect(standings[0].colors).toEqual([Color.WHITE]);
+    expect(standings[1].opponentIds).toEqual(["p1"]);
+    expect(standings[2].receivedBye).toBe(true);
+  });
+
+  test("should throw error for an invalid outcome", () => {
+    const players = createPlayers(2);
+    for (const outcome of [2, -1, NaN]) {
+      const history = [{ games: [{ whiteId: "p1", blackId: "p2", outcome }] }];
+
+      expect(() => calculateSwissStandings(players, history)).toThrow(
+        "Actual score must be between 0 and 1",
+      );
+      expect(() => pairSwissRound(players, history)).toThrow(
+        "Actual score must be between 0 and 1",
+      );
+    }
+  });
+});
+
+describe("applySwissRound", () => {
+  test("should rate each game with calculateDuel", () => {
+    const players = createPlayers(5);
+    const round = playRound(players, pairSwissRound(players));
+
+    const updated = applySwissRound(players, round, { kFactor: 20 });
+
+    const [p1, p3] = calculateDuel(players[0], players[2], { kFactor: 20 });
+    expect(updated.find((p) => p.id === "p1")!.rating).toBe(p1.newRating);
+    expect(updated.find((p) => p.id === "p3")!.rating).toBe(p3.newRating);
+    expect(updated.find((p) => p.id === "p5")!.rating).toBe(1800);
+    expect(updated.map((p) => p.id)).toEqual(players.map((p) => p.id));
+  });
+});
@@ -0,0 +1,289 @@
+import {
+  calculateActualScore,
+  calculateDuelOutcome,
+  type DuelOutcome,
+  type Options,
+  type Player,
+} from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+
+const DEFAULT_BYE_POINTS = 1;
+
+export enum Color {
+  WHITE = "WHITE",
+  BLACK = "BLACK",
+}
+
+export interface SwissPairing {
+  whiteId: string;
+  blackId: string;
+}
+
+export interface SwissRound {
+  pairings: SwissPairing[];
+  byePlayerId?: string;
+}
+
+export interface SwissGameResult extends SwissPairing {
+  /** Outcome from white's perspective */
+  outcome: DuelOutcome | number;
+}
+
+export interface SwissRoundResult {
+  games: SwissGameResult[];
+  byePlayerId?: string;
+}
+
+export interface SwissOptions extends Options {
+  /** Points awarded for a bye, default: 1 */
+  byePoints?: number;
+}
+
+export interface SwissStanding {
+  player: Player;
+  score: number;
+  opponentIds: string[];
+  /** Colors played in order, byes excluded */
+  colors: Color[];
+  receivedBye: boolean;
+}
+
+const getColorBalance = (standing: SwissStanding): number =>
+  standing.colors.reduce(
+    (balance, color) => balance + (color === Color.WHITE ? 1 : -1),
+    0,
+  );
+
+/** The color a player must receive: never a third game in a row or an imbalance above two */
+const getRequiredColor = (standing: SwissStanding): Color | undefined => {
+  const balance = getColorBalance(standing);
+  const [secondLast, last] = standing.colors.slice(-2);
+  if (balance < -1 || (last === Color.BLACK && secondLast === Color.BLACK)) {
+    return Color.WHITE;
+  }
+  if (balance > 1 || (last === Color.WHITE && secondLast === Color.WHITE)) {
+    return Color.BLACK;
+  }
+  return undefined;
+};
+
+/**
+ * A player who must receive a color gets it. Otherwise the stronger color
+ * claim gets white: lower color balance first, then the player who had black
+ * last. Otherwise the higher-ranked player alternates colors by board, as in
+ * the first round.
+ */
+const assignColors = (
+  higher: SwissStanding,
+  lower: SwissStanding,
+  board: number,
+): SwissPairing => {
+  const higherRequired = getRequiredColor(higher);
+  const lowerRequired = getRequiredColor(lower);
+  const balanceDifference = getColorBalance(higher) - getColorBalance(lower);
+  const higherLast = higher.colors[higher.colors.length - 1];
+  const lowerLast = lower.colors[lower.colors.length - 1];
+
+  let higherGetsWhite: boolean;
+  if (higherRequired !== undefined && higherRequired !== lowerRequired) {
+    higherGetsWhite = higherRequired === Color.WHITE;
+  } else if (lowerRequired !== undefined && lowerRequired !== higherRequired) {
+    higherGetsWhite = lowerRequired === Color.BLACK;
+  } else if (balanceDifference !== 0) {
+    higherGetsWhite = balanceDifference < 0;
+  } else if (higherLast !== lowerLast && higherLast && lowerLast) {
+    higherGetsWhite = higherLast === Color.BLACK;
+  } else {
+    higherGetsWhite = board % 2 === 0;
+  }
+
+  return higherGetsWhite
+    ? { whiteId: higher.player.id, blackId: lower.player.id }
+    : { whiteId: lower.player.id, blackId: higher.player.id };
+};
+
+const canPlay = (
+  first: SwissStanding,
+  second: SwissStanding,
+  enforceColors: boolean,
+): boolean => {
+  if (first.opponentIds.includes(second.player.id)) {
+    return false;
+  }
+  if (!enforceColors) {
+    return true;
+  }
+  const firstColor = getRequiredColor(first);
+  return firstColor === undefined || firstColor !== getRequiredColor(second);
+};
+
+/**
+ * Dutch order for the top remaining player: the middle of their score group
+ * first (top half plays bottom half), then the rest of the bottom half, then
+ * the top half from the bottom up, then lower score groups by rank.
+ */
+const getCandidateOrder = (ranked: SwissStanding[]): SwissStanding[] => {
+  const [top, ...rest] = ranked;
+  const group = ranked.filter((standing) => standing.score === top.score);
+  const half = Math.max(Math.floor(group.length / 2), 1);
+  const bottomHalf = group.slice(half);
+  const topHalf = group.slice(1, half).reverse();
+  const lowerGroups = rest.filter((standing) => standing.score !== top.score);
+  return [...bottomHalf, ...topHalf, ...lowerGroups];
+};
+
+const findPairings = (
+  ranked: SwissStanding[],
+  enforceColors: boolean,
+): [SwissStanding, SwissStanding][] | undefined => {
+  if (ranked.length === 0) {
+    return [];
+  }
+  const [top] = ranked;
+  for (const candidate of getCandidateOrder(ranked)) {
+    if (!canPlay(top, candidate, enforceColors)) continue;
+
+    const remaining = ranked.filter(
+      (standing) => standing !== top && standing !== candidate,
+    );
+    const rest = findPairings(remaining, enforceColors);
+    if (rest) {
+      return [[top, candidate], ...rest];
+    }
+  }
+  return undefined;
+};
+
+const compareStandings = (a: SwissStanding, b: SwissStanding): number =>
+  b.score - a.score || b.player.rating - a.player.rating;
+
+/** Scores, opponents and colors from previous rounds, ranked by score and then rating */
+export const calculateSwissStandings = (
+  players: Player[],
+  history: SwissRoundResult[],
+  options: SwissOptions = {},
+): SwissStanding[] => {
+  const standings = new Map(
+    players.map((player) => [
+      player.id,
+      {
+        player,
+        score: 0,
+        opponentIds: [] as string[],
+        colors: [] as Color[],
+        receivedBye: false,
+      },
+    ]),
+  );
+  const getStanding = (playerId: string): SwissStanding => {
+    const standing = standings.get(playerId);
+    if (!standing) {
+      throw new EloNotFoundError(
+        EloErrorCode.PLAYER_NOT_FOUND,
+        `Player with id ${playerId} not found`,
+      );
+    }
+    return standing;
+  };
+
+  for (const round of history) {
+    for (const game of round.games) {
+      const white = getStanding(game.whiteId);
+      const black = getStanding(game.blackId);
+      const whiteScore = calculateActualScore(game.outcome);
+      white.score += whiteScore;
+      black.score += 1 - whiteScore;
+      white.opponentIds.push(black.player.id);
+      black.opponentIds.push(white.player.id);
+      white.colors.push(Color.WHITE);
+      black.colors.push(Color.BLACK);
+    }
+    if (round.byePlayerId !== undefined) {
+      const standing = getStanding(round.byePlayerId);
+      standing.score += options.byePoints ?? DEFAULT_BYE_POINTS;
+      standing.receivedBye = true;
+    }
+  }
+
+  return Array.from(standings.values()).sort(compareStandings);
+};
+
+/**
+ * Pairs the next round Dutch-style: players meet within their score group,
+ * top half against bottom half, without repeat opponents. Color constraints
+ * are relaxed only when no pairing satisfies them. With an odd number of
+ * players, the lowest-ranked player without a previous bye gets the bye.
+ */
+export const pairSwissRound = (
+  players: Player[],
+  history: SwissRoundResult[] = [],
+  options: SwissOptions = {},
+): SwissRound => {
+  const ranked = calculateSwissStandings(players, history, options);
+
+  const byeCandidates =
+    ranked.length % 2 === 0
+      ? [undefined]
+      : [...ranked].reverse().filter((standing) => !standing.receivedBye);
+  if (byeCandidates.length === 0) {
+    throw new EloValidationError(
+      EloErrorCode.NO_VALID_PAIRING,
+      "No valid Swiss pairing exists",
+    );
+  }
+
+  for (const byeStanding of byeCandidates) {
+    const paired = ranked.filter((standing) => standing !== byeStanding);
+    const pairs = findPairings(paired, true) ?? findPairings(paired, false);
+    if (!pairs) continue;
+
+    const round: SwissRound = {
+      pairings: pairs.map(([higher, lower], board) =>
+        assignColors(higher, lower, board),
+      ),
+    };
+    if (byeStanding) {
+      round.byePlayerId = byeStanding.player.id;
+    }
+    return round;
+  }
+  throw new EloValidationError(
+    EloErrorCode.NO_VALID_PAIRING,
+    "No valid Swiss pairing exists",
+  );
+};
+
+/** Rates each game of a round with `calculateDuelOutcome` and returns the updated players */
+export const applySwissRound = (
+  players: Player[],
+  round: SwissRoundResult,
+  options: Options = {},
+): Player[] => {
+  const updated = new Map(players.map((player) => [player.id, player]));
+  const getPlayer = (playerId: string): Player => {
+    const player = updated.get(playerId);
+    if (!player) {
+      throw new EloNotFoundError(
+        EloErrorCode.PLAYER_NOT_FOUND,
+        `Player with id ${playerId} not found`,
+      );
+    }
+    return player;
+  };
+
+  for (const game of round.games) {
+    const white = getPlayer(game.whiteId);
+    const black = getPlayer(game.blackId);
+    const results = calculateDuelOutcome(white, black, game.outcome, options);
+    for (const result of results) {
+      const player = getPlayer(result.id);
+      updated.set(result.id, {
+        ...player,
+        rating: result.newRating,
+        gamesPlayed:
+          player.gamesPlayed === undefined ? undefined : player.gamesPlayed + 1,
+      });
+    }
+  }
+  return players.map((player) => getPlayer(player.id));
+};
@@ -0,0 +1,194 @@
+import {
+  balanceTeams,
+  calculateExpectedScore,
+  calculateTeamStrength,
+  CalculationStrategy,
+  TeamStrengthModel,
+  type Player,
+  type Team,
+} from "./index";
+
+const players: Player[] = [
+  { id: "a", rating: 1900 },
+  { id: "b", rating: 1800 },
+  { id: "c", rating: 1600 },
+  { id: "d", rating: 1500 },
+  { id: "e", rating: 1400 },
+  { id: "f", rating: 1200 },
+];
+
+const teamIds = (teams: Team[]) =>
+  teams.map((team) => team.players.map((player) => player.id).sort());
+
+const teamOf = (teams: Team[], playerId: string) =>
+  teams.findIndex((team) =>
+    team.players.some((player) => player.id === playerId),
+  );
+
+describe("balanceTeams", () => {
+  test("should split players into two teams with the smallest difference", () => {
+    const balance = balanceTeams(players);
+
+    expect(balance.teams).toHaveLength(2);
+    expect(balance.teams.map((team) => team.players.length)).toEqual([3, 3]);
+    // 1900 + 1600 + 1200 = 1800 + 1500 + 1400
+    expect(balance.strengthDifference).toBe(0);
+    expect(balance.strengths).toEqual([4700 / 3, 4700 / 3]);
+  });
+
+  test("should respect fixed team sizes", () => {
+    const balance = balanceTeams(players, { teamSizes: [2, 4] });
+
+    expect(balance.teams.map((team) => team.players.length)).toEqual([2, 4]);
+    // No pair averages exactly the same as the remaining four
+    expect(balance.strengthDifference).toBe(25);
+  });
+
+  test("should keep parties together", () => {
+    const balance = balanceTeams(players, { parties: [["a", "b"]] });
+
+    expect(teamOf(balance.teams, "a")).toBe(teamOf(balance.teams, "b"));
+    expect(teamIds(balance.teams)).toContainEqual(["a", "b", "f"]);
+  });
+
+  test("should keep separated players apart", () => {
+    const balance = balanceTeams(players, {
+      parties: [["a", "d"]],
+      separate: [["a", "e"]],
+    });
+
+    expect(teamOf(balance.teams, "a")).toBe(teamOf(balance.teams, "d"));
+    expect(teamOf(balance.teams, "a")).not.toBe(teamOf(balance.teams, "e"));
+  });
+
+  test("should split players into more than two teams", () => {
+    const balance = balanceTeams(players, { teamCount: 3 });
+
+    expect(balance.teams).toHaveLength(3);
+    expect(teamIds(balance.teams)).toEqual(
+      expect.arrayContaining([
+        ["a", "f"],
+        ["b", "e"],
+        ["c", "d"],
+      ]),
+    );
+  });
+
+  test("should measure teams the same way as calculateExpectedScore", () => {
+    const balance = balanceTeams(
+      [
+        { id: "a", rating: 2000 },
+        { id: "b", rating: 1000 },
+        { id: "c", rating: 1500 },
+        { id: "d", rating: 1500 },
+      ],
+      { strategy: CalculationStrategy.WEIGHTED_TEAMS },
+    );
+
+    expect(balance.strengthDifference).toBe(0);
+    expect(
+      calculateExpectedScore(balance.teams[0], balance.teams[1], {
+        strategy: CalculationStrategy.WEIGHTED_TEAMS,
+      }),
+    ).toBe(0.5);
+  });
+
+  test("should use the team strength model", () => {
+    const equalPlayers = players.slice(0, 5).map((player) => ({
+      ...player,
+      rating: 1500,
+    }));
+    const options = {
+      teamSizes: [3, 2],
+      teamStrength: { model: TeamStrengthModel.SUM },
+    };
+
+    const balance = balanceTeams(equalPlayers, options);
+
+    expect(balance.strengths).toEqual([4500, 3000]);
+    expect(balance.strengthDifference).toBe(1500);
+    expect(balance.strengths).toEqual(
+      balance.teams.map((team) => calculateTeamStrength(team, options)),
+    );
+  });
+
+  test("should weight players by participation", () => {
+    const balance = balanceTeams([
+      { id: "a", rating: 1800 },
+      { id: "b", rating: 1200, participation: 0.5 },
+      { id: "c", rating: 1600 },
+      { id: "d", rating: 1600 },
+    ]);
+
+    // (1800 + 0.5 * 1200) / 1.5 = 1600
+    expect(teamOf(balance.teams, "a")).toBe(teamOf(balance.teams, "b"));
+    expect(balance.strengthDifference).toBe(0);
+  });
+
+  test("should include team handicaps and home advantage", () => {
+    const balance = balanceTeams(players.slice(0, 4), {
+      homeTeam: 0,
+      homeAdvantage: 100,
+      teamHandicaps: [0, 200],
+    });
+
+    expect(balance.teams[0].home).toBe(true);
+    expect(balance.teams[1]).toMatchObject({ handicap: 200 });
+    expect(
+      calculateExpectedScore(balance.teams[0], balance.teams[1], {
+        homeAdvantage: 100,
+      }),
+    ).toBeCloseTo(
+      calculateExpectedScore(balance.strengths[0], balance.strengths[1]),
+    );
+    // 1750 average + 100 home = 1650 average + 200 handicap
+    expect(teamIds(balance.teams)).toEqual([
+      ["a", "c"],
+      ["b", "d"],
+    ]);
+    expect(balance.strengthDifference).toBe(0);
+  });
+
+  test("should include handicaps in team strength", () => {
+    const balance = balanceTeams([
+      { id: "a", rating: 1500, handicap: 200 },
+      { id: "b", rating: 1500 },
+      { id: "c", rating: 1600 },
+      { id: "d", rating: 1600 },
+    ]);
+
+    expect(teamOf(balance.teams, "a")).toBe(teamOf(balance.teams, "b"));
+    expect(balance.strengthDifference).toBe(0);
+  });
+
+  test("should throw an error when team sizes do not add up", () => {
+    expect(() => balanceTeams(players, { teamSizes: [2, 2] })).toThrow(
+      "Team sizes must add up to the number of players",
+    );
+  });
+
+  test("should throw an error for fewer than 2 teams", () => {
+    expect(() => balanceTeams(players, { teamCount: 1 })).toThrow(
+      "At least 2 teams are required for a team match",
+    );
+  });
+
+  test("should throw an error for an unknown party member", () => {
+    expect(() => balanceTeams(players, { parties: [["a", "x"]] })).toThrow(
+      "Player with id x not found",
+    );
+  });
+
+  test("should throw an error when the constraints cannot be met", () => {
+    expect(() =>
+      balanceTeams(players, {
+        parties: [["a", "b", "c", "d"]],
+      }),
+    ).toThrow("No team assignment satisfies the constraints");
+    expect(() =>
+      balanceTeams(players, {
+        separate: [["a", "b", "c"]],
+      }),
+    ).toThrow("No team assignment satisfies the constraints");
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  calculateTeamStrength,
+  type Options,
+  type Player,
+  type Team,
+} from "./elo";
+import { EloErrorCode, EloNotFoundError, EloValidationError } from "./errors";
+
+const DEFAULT_TEAM_COUNT = 2;
+const DEFAULT_SEARCH_LIMIT = 100000;
+
+export interface TeamBalanceOptions extends Options {
+  /** default: 2 */
+  teamCount?: number;
+  /** Players per team, default: as even as possible */
+  teamSizes?: number[];
+  /** Handicap of each team, in team order */
+  teamHandicaps?: number[];
+  /** Index of the team receiving `Options.homeAdvantage` */
+  homeTeam?: number;
+  /** Player ids that must end up on the same team */
+  parties?: string[][];
+  /** Player ids that must all end up on different teams */
+  separate?: string[][];
+  /** Maximum partial assignments explored before returning the best found, default: 100000 */
+  searchLimit?: number;
+}
+
+export interface TeamBalance {
+  teams: Team[];
+  strengths: number[];
+  /** Strongest minus weakest team strength */
+  strengthDifference: number;
+}
+
+interface TeamState extends Team {
+  capacity: number;
+  separationGroups: Set<number>;
+}
+
+const getDefaultTeamSizes = (playerCount: number, teamCount: number) =>
+  Array.from(
+    { length: teamCount },
+    (_, i) =>
+      Math.floor(playerCount / teamCount) +
+      (i < playerCount % teamCount ? 1 : 0),
+  );
+
+const createUnits = (
+  players: Player[],
+  parties: string[][],
+  options: Options,
+): Player[][] => {
+  const playersById = new Map(players.map((player) => [player.id, player]));
+  const assigned = new Set<string>();
+  const units = parties.map((party) =>
+    party.map((playerId) => {
+      const player = playersById.get(playerId);
+      if (!player) {
+        throw new EloNotFoundError(
+          EloErrorCode.PLAYER_NOT_FOUND,
+          `Player with id ${playerId} not found`,
+        );
+      }
+      if (assigned.has(playerId)) {
+        throw new EloValidationError(
+          EloErrorCode.DUPLICATE_PLAYER_ID,
+          `Player with id ${playerId} is in more than one party`,
+        );
+      }
+      assigned.add(playerId);
+      return player;
+    }),
+  );
+  for (const player of players) {
+    if (!assigned.has(player.id)) {
+      units.push([player]);
+    }
+  }
+
+  const unitStrengths = new Map(
+    units.map((unit) => [
+      unit,
+      calculateTeamStrength({ players: unit }, options),
+    ]),
+  );
+  return units.sort(
+    (a, b) =>
+      b.length - a.length ||
+      (unitStrengths.get(b) ?? 0) - (unitStrengths.get(a) ?? 0),
+  );
+};
+
+/**
+ * Splits players into teams with the smallest gap between the strongest and
+ * weakest team, keeping parties together and separated players apart. Teams
+ * are measured with `calculateTeamStrength`, so a balanced split is also even
+ * for `calculateTeamMatch`. The search is exhaustive for typical lobby sizes;
+ * larger pools return the best split found within `searchLimit`.
+ */
+export const balanceTeams = (
+  players: Player[],
+  options: TeamBalanceOptions = {},
+): TeamBalance => {
+  const teamCount =
+    options.teamSizes?.length ?? options.teamCount ?? DEFAULT_TEAM_COUNT;
+  if (teamCount < 2) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_TEAMS,
+      "At least 2 teams are required for a team match",
+    );
+  }
+  const teamSizes =
+    options.teamSizes ?? getDefaultTeamSizes(players.length, teamCount);
+  if (teamSizes.reduce((sum, size) => sum + size, 0) !== players.length) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_ARGUMENT,
+      "Team sizes must add up to the number of players",
+    );
+  }
+  if (teamSizes.some((size) => size < 1)) {
+    throw new EloValidationError(
+      EloErrorCode.EMPTY_TEAM,
+      "Team cannot be empty",
+    );
+  }
+
+  const searchLimit = options.searchLimit ?? DEFAULT_SEARCH_LIMIT;
+  const units = createUnits(players, options.parties ?? [], options);
+  const separationGroupsById = new Map<string, number[]>();
+  (options.separate ?? []).forEach((group, groupIndex) => {
+    for (const playerId of group) {
+      separationGroupsById.set(playerId, [
+        ...(separationGroupsById.get(playerId) ?? []),
+        groupIndex,
+      ]);
+    }
+  });
+
+  const teams: TeamState[] = teamSizes.map((capacity, i) => ({
+    players: [],
+    capacity,
+    handicap: options.teamHandicaps?.[i],
+    home: options.homeTeam === i,
+    separationGroups: new Set(),
+  }));
+  const toTeam = ({ players, handicap, home }: TeamState): Team => {
+    const team: Team = { players: [...players] };
+    if (handicap !== undefined) {
+      team.handicap = handicap;
+    }
+    if (home) {
+      team.home = home;
+    }
+    return team;
+  };
+  const getStrength = (team: TeamState) =>
+    team.players.length === 0
+      ? -Infinity
+      : calculateTeamStrength(team, options);
+
+  const getUnitGroups = (unit: Player[]): number[] | undefined => {
+    const groups = unit.flatMap(
+      (player) => separationGroupsById.get(player.id) ?? [],
+    );
+    return new Set(groups).size === groups.length ? groups : undefined;
+  };
+  const unitGroups = units.map(getUnitGroups);
+
+  const canJoin = (team: TeamState, unitIndex: number): boolean => {
+    const groups = unitGroups[unitIndex];
+    return (
+      groups !== undefined &&
+      team.players.length + units[unitIndex].length <= team.capacity &&
+      groups.every((group) => !team.separationGroups.has(group))
+    );
+  };
+
+  const join = (team: TeamState, unitIndex: number, sign: 1 | -1): void => {
+    if (sign === 1) {
+      team.players.push(...units[unitIndex]);
+    } else {
+      team.players.splice(-units[unitIndex].length);
+    }
+    for (const group of unitGroups[unitIndex] ?? []) {
+      if (sign === 1) {
+        team.separationGroups.add(group);
+      } else {
+        team.separationGroups.delete(group);
+      }
+    }
+  };
+
+  let best: TeamBalance | undefined;
+  let explored = 0;
+
+  const search = (unitIndex: number): void => {
+    if (explored >= searchLimit || best?.strengthDifference === 0) return;
+    explored++;
+
+    if (unitIndex === units.length) {
+      const strengths = teams.map(getStrength);
+      const difference = Math.max(...strengths) - Math.min(...strengths);
+      if (!best || difference < best.strengthDifference) {
+        best = {
+          teams: teams.map(toTeam),
+          strengths,
+          strengthDifference: difference,
+        };
+      }
+      return;
+    }
+
+    const triedEmptyTeams = new Set<string>();
+    const strengths = new Map(teams.map((team) => [team, getStrength(team)]));
+    const weakestFirst = [...teams].sort(
+      (a, b) => (strengths.get(a) ?? 0) - (strengths.get(b) ?? 0),
+    );
+    for (const team of weakestFirst) {
+      if (!canJoin(team, unitIndex)) continue;
+      // Empty teams of the same size, handicap and venue are interchangeable
+      if (team.players.length === 0) {
+        const key = `${team.capacity}/${team.handicap ?? 0}/${team.home}`;
+        if (triedEmptyTeams.has(key)) continue;
+        triedEmptyTeams.add(key);
+      }
+      join(team, unitIndex, 1);
+      search(unitIndex + 1);
+      join(team, unitIndex, -1);
+    }
+  };
+
+  search(0);
+
+  if (!best) {
+    throw new EloValidationError(
+      EloErrorCode.NO_VALID_TEAMS,
+      "No team assignment satisfies the constraints",
+    );
+  }
+  return best;
+};
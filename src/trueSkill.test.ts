@@ -0,0 +1,175 @@
+import {
+  calculateTrueSkillDisplayRating,
+  calculateTrueSkillMultiTeamMatch,
+  calculateTrueSkillTeamMatch,
+  createTrueSkillPlayer,
+  type TrueSkillPlayer,
+} from "./index";
+
+describe("calculateTrueSkillTeamMatch", () => {
+  test("should match reference TrueSkill values for a 1v1 win", () => {
+    const results = calculateTrueSkillTeamMatch(
+      { players: [createTrueSkillPlayer("winner")], score: 1 },
+      { players: [createTrueSkillPlayer("loser")], score: 0 },
+    );
+
+    const winner = results.find((r) => r.id === "winner")!;
+    const loser = results.find((r) => r.id === "loser")!;
+
+    expect(winner.newMu).toBeCloseTo(29.396, 2);
+    expect(winner.newSigma).toBeCloseTo(7.171, 2);
+    expect(loser.newMu).toBeCloseTo(20.604, 2);
+    expect(loser.newSigma).toBeCloseTo(7.171, 2);
+  });
+
+  test("should match reference TrueSkill values for a 1v1 draw", () => {
+    const results = calculateTrueSkillTeamMatch(
+      { players: [createTrueSkillPlayer("p1")], score: 1 },
+      { players: [createTrueSkillPlayer("p2")], score: 1 },
+    );
+
+    for (const result of results) {
+      expect(result.newMu).toBeCloseTo(25, 2);
+      expect(result.newSigma).toBeCloseTo(6.458, 2);
+    }
+  });
+
+  test("should move stronger player down on a draw", () => {
+    const strongerPlayer: TrueSkillPlayer = { id: "strong", mu: 30, sigma: 4 };
+    const weakerPlayer: TrueSkillPlayer = { id: "weak", mu: 22, sigma: 4 };
+
+    const results = calculateTrueSkillTeamMatch(
+      { players: [strongerPlayer], score: 0 },
+      { players: [weakerPlayer], score: 0 },
+    );
+
+    expect(results.find((r) => r.id === "strong")!.newMu).toBeLessThan(30);
+    expect(results.find((r) => r.id === "weak")!.newMu).toBeGreaterThan(22);
+  });
+
+  test("should update uncertain players more within a 5v5 team", () => {
+    const veteran: TrueSkillPlayer = { id: "veteran", mu: 25, sigma: 1 };
+    const rookie = createTrueSkillPlayer("rookie");
+    const winningTeam = {
+      players: [
+        veteran,
+        rookie,
+        createTrueSkillPlayer("w3"),
+        createTrueSkillPlayer("w4"),
+        createTrueSkillPlayer("w5"),
+      ],
+      score: 16,
+    };
+    const losingTeam = {
+      players: ["l1", "l2", "l3", "l4", "l5"].map((id) =>
+        createTrueSkillPlayer(id),
+      ),
+      score: 9,
+    };
+
+    const results = calculateTrueSkillTeamMatch(winningTeam, losingTeam);
+    const veteranGain = results.find((r) => r.id === "veteran")!.newMu - 25;
+    const rookieGain = results.find((r) => r.id === "rookie")!.newMu - 25;
+
+    expect(results).toHaveLength(10);
+    expect(veteranGain).toBeGreaterThan(0);
+    expect(rookieGain).toBeGreaterThan(veteranGain);
+  });
+
+  test("should include conservative display rating", () => {
+    const results = calculateTrueSkillTeamMatch(
+      { players: [createTrueSkillPlayer("p1")], score: 1 },
+      { players: [createTrueSkillPlayer("p2")], score: 0 },
+      { displayRatingMultiplier: 2 },
+    );
+
+    for (const result of results) {
+      expect(result.displayRating).toBeCloseTo(
+        result.newMu - 2 * result.newSigma,
+      );
+    }
+  });
+});
+
+describe("calculateTrueSkillMultiTeamMatch", () => {
+  test("should order mean changes by placement", () => {
+    const results = calculateTrueSkillMultiTeamMatch([
+      { players: [createTrueSkillPlayer("first")], score: 3 },
+      { players: [createTrueSkillPlayer("second")], score: 2 },
+      { players: [createTrueSkillPlayer("third")], score: 1 },
+    ]);
+
+    const first = results.find((r) => r.id === "first")!;
+    const second = results.find((r) => r.id === "second")!;
+    const third = results.find((r) => r.id === "third")!;
+
+    expect(first.newMu).toBeGreaterThan(second.newMu);
+    expect(second.newMu).toBeCloseTo(25);
+    expect(second.newMu).toBeGreaterThan(third.newMu);
+    for (const result of results) {
+      expect(result.newSigma).toBeLessThan(25 / 3);
+    }
+  });
+
+  test("should give tied teams identical updates", () => {
+    const results = calculateTrueSkillMultiTeamMatch([
+      { players: [createTrueSkillPlayer("p1")], score: 10 },
+      { players: [createTrueSkillPlayer("p2")], score: 10 },
+      { players: [createTrueSkillPlayer("p3")], score: 5 },
+    ]);
+
+    const p1 = results.find((r) => r.id === "p1")!;
+    const p2 = results.find((r) => r.id === "p2")!;
+
+    expect(p1.newMu).toBeCloseTo(p2.newMu);
+    expect(p1.newSigma).toBeCloseTo(p2.newSigma);
+    expect(p1.newMu).toBeGreaterThan(25);
+  });
+
+  test("should keep sigma positive in large fields", () => {
+    const teams = Array.from({ length: 40 }, (_, index) => ({
+      players: [createTrueSkillPlayer(`p${index}`)],
+      score: index,
+    }));
+
+    const results = calculateTrueSkillMultiTeamMatch(teams);
+
+    for (const result of results) {
+      expect(result.newSigma).toBeGreaterThan(0);
+      expect(Number.isFinite(result.newMu)).toBe(true);
+    }
+  });
+
+  test("should throw error for fewer than 2 teams", () => {
+    const expectedErrorMessage =
+      "At least 2 teams are required for a team match";
+
+    expect(() =>
+      calculateTrueSkillMultiTeamMatch([
+        { players: [createTrueSkillPlayer("p1")], score: 1 },
+      ]),
+    ).toThrow(expectedErrorMessage);
+  });
+
+  test("should throw error for empty teams", () => {
+    const expectedErrorMessage = "Team cannot be empty";
+
+    expect(() =>
+      calculateTrueSkillMultiTeamMatch([
+        { players: [], score: 1 },
+        { players: [createTrueSkillPlayer("p1")], score: 0 },
+      ]),
+    ).toThrow(expectedErrorMessage);
+  });
+});
+
+describe("calculateTrueSkillDisplayRating", () => {
+  test("should subtract three sigma by default", () => {
+    expect(calculateTrueSkillDisplayRating(createTrueSkillPlayer("p1"))).toBe(
+      0,
+    );
+    expect(
+      calculateTrueSkillDisplayRating({ id: "p2", mu: 30, sigma: 2 }, 1),
+    ).toBe(28);
+  });
+});
@@ -0,0 +1,235 @@
+import { EloErrorCode, EloValidationError } from "./errors";
+import {
+  inverseNormalCumulativeDistribution,
+  normalCumulativeDistribution,
+  normalProbabilityDensity,
+} from "./gaussian";
+import {
+  validateRating,
+  validateScore,
+  validateTeamRosters,
+  validateUncertainty,
+} from "./validation";
+
+const DEFAULT_MU = 25;
+const DEFAULT_SIGMA = DEFAULT_MU / 3;
+const DEFAULT_BETA = DEFAULT_SIGMA / 2;
+const DEFAULT_TAU = DEFAULT_SIGMA / 100;
+const DEFAULT_DRAW_PROBABILITY = 0.1;
+const DEFAULT_DISPLAY_RATING_MULTIPLIER = 3;
+
+/** Lower bound on the variance reduction factor so sigma stays positive in large multi-team matches */
+const MINIMUM_VARIANCE_FACTOR = 0.0001;
+const MINIMUM_PROBABILITY_MASS = 2.222758749e-162;
+
+export interface TrueSkillPlayer {
+  id: string;
+  mu: number;
+  sigma: number;
+}
+
+export interface TrueSkillTeamWithScore {
+  players: TrueSkillPlayer[];
+  score: number;
+}
+
+export interface TrueSkillMatchResultItem {
+  id: string;
+  newMu: number;
+  newSigma: number;
+  /** Conservative rating estimate: mu - k * sigma */
+  displayRating: number;
+}
+
+export type TrueSkillMatchResult = TrueSkillMatchResultItem[];
+
+export interface TrueSkillOptions {
+  /** Performance variation around a player's skill, default: 25 / 6 */
+  beta?: number;
+  /** Dynamics factor added to sigma before each match, default: 25 / 300 */
+  tau?: number;
+  /** Probability of a draw between two evenly matched teams, default: 0.1 */
+  drawProbability?: number;
+  /** Number of standard deviations subtracted for the display rating, default: 3 */
+  displayRatingMultiplier?: number;
+}
+
+const calculateWinMean = (t: number, epsilon: number): number => {
+  const denominator = normalCumulativeDistribution(t - epsilon);
+  if (denominator < MINIMUM_PROBABILITY_MASS) {
+    return -t + epsilon;
+  }
+  return normalProbabilityDensity(t - epsilon) / denominator;
+};
+
+const calculateWinVariance = (t: number, epsilon: number): number => {
+  const v = calculateWinMean(t, epsilon);
+  return v * (v + t - epsilon);
+};
+
+const calculateDrawMean = (t: number, epsilon: number): number => {
+  const absoluteT = Math.abs(t);
+  const denominator =
+    normalCumulativeDistribution(epsilon - absoluteT) -
+    normalCumulativeDistribution(-epsilon - absoluteT);
+  if (denominator < MINIMUM_PROBABILITY_MASS) {
+    return t < 0 ? -t - epsilon : -t + epsilon;
+  }
+  const v =
+    (normalProbabilityDensity(-epsilon - absoluteT) -
+      normalProbabilityDensity(epsilon - absoluteT)) /
+    denominator;
+  return t < 0 ? -v : v;
+};
+
+const calculateDrawVariance = (t: number, epsilon: number): number => {
+  const absoluteT = Math.abs(t);
+  const denominator =
+    normalCumulativeDistribution(epsilon - absoluteT) -
+    normalCumulativeDistribution(-epsilon - absoluteT);
+  if (denominator < MINIMUM_PROBABILITY_MASS) {
+    return 1;
+  }
+  const v = calculateDrawMean(absoluteT, epsilon);
+  return (
+    v * v +
+    ((epsilon - absoluteT) * normalProbabilityDensity(epsilon - absoluteT) +
+      (epsilon + absoluteT) * normalProbabilityDensity(epsilon + absoluteT)) /
+      denominator
+  );
+};
+
+const calculateDrawMargin = (
+  drawProbability: number,
+  playerCount: number,
+  beta: number,
+): number =>
+  inverseNormalCumulativeDistribution((drawProbability + 1) / 2) *
+  Math.sqrt(playerCount) *
+  beta;
+
+export const createTrueSkillPlayer = (
+  id: string,
+  mu: number = DEFAULT_MU,
+  sigma: number = DEFAULT_SIGMA,
+): TrueSkillPlayer => ({ id, mu, sigma });
+
+export const calculateTrueSkillDisplayRating = (
+  player: TrueSkillPlayer,
+  multiplier: number = DEFAULT_DISPLAY_RATING_MULTIPLIER,
+): number => player.mu - multiplier * player.sigma;
+
+/**
+ * Updates mu and sigma with the Thurstone-Mosteller full pairing model: each
+ * team is compared with every other team and the Gaussian moment-matching
+ * updates of two-team TrueSkill are accumulated. Higher score = better
+ * placement, equal scores are draws.
+ */
+export const calculateTrueSkillMultiTeamMatch = (
+  teams: TrueSkillTeamWithScore[],
+  options: TrueSkillOptions = {},
+): TrueSkillMatchResult => {
+  if (teams.length < 2) {
+    throw new EloValidationError(
+      EloErrorCode.NOT_ENOUGH_TEAMS,
+      "At least 2 teams are required for a team match",
+    );
+  }
+  for (const team of teams) {
+    if (team.players.length === 0) {
+      throw new EloValidationError(
+        EloErrorCode.EMPTY_TEAM,
+        "Team cannot be empty",
+      );
+    }
+    validateScore(team.score);
+    for (const player of team.players) {
+      validateRating(player.mu, player.id);
+      validateUncertainty(player.sigma, player.id, "sigma");
+    }
+  }
+  validateTeamRosters(teams);
+
+  const beta = options.beta ?? DEFAULT_BETA;
+  const tau = options.tau ?? DEFAULT_TAU;
+  const drawProbability = options.drawProbability ?? DEFAULT_DRAW_PROBABILITY;
+  const displayRatingMultiplier =
+    options.displayRatingMultiplier ?? DEFAULT_DISPLAY_RATING_MULTIPLIER;
+
+  const priorVariance = (player: TrueSkillPlayer): number =>
+    player.sigma * player.sigma + tau * tau;
+
+  const teamStats = teams.map((team) => ({
+    team,
+    mu: team.players.reduce((sum, player) => sum + player.mu, 0),
+    variance: team.players.reduce(
+      (sum, player) => sum + priorVariance(player),
+      0,
+    ),
+  }));
+
+  const results: TrueSkillMatchResult = [];
+
+  for (const teamStat of teamStats) {
+    let meanUpdate = 0;
+    let varianceUpdate = 0;
+
+    for (const otherTeamStat of teamStats) {
+      if (teamStat === otherTeamStat) continue;
+
+      const playerCount =
+        teamStat.team.players.length + otherTeamStat.team.players.length;
+      const c = Math.sqrt(
+        teamStat.variance + otherTeamStat.variance + playerCount * beta * beta,
+      );
+      const t = (teamStat.mu - otherTeamStat.mu) / c;
+      const epsilon =
+        calculateDrawMargin(drawProbability, playerCount, beta) / c;
+
+      let v: number;
+      let w: number;
+      if (teamStat.team.score > otherTeamStat.team.score) {
+        v = calculateWinMean(t, epsilon);
+        w = calculateWinVariance(t, epsilon);
+      } else if (teamStat.team.score === otherTeamStat.team.score) {
+        v = calculateDrawMean(t, epsilon);
+        w = calculateDrawVariance(t, epsilon);
+      } else {
+        v = -calculateWinMean(-t, epsilon);
+        w = calculateWinVariance(-t, epsilon);
+      }
+
+      meanUpdate += v / c;
+      varianceUpdate += w / (c * c);
+    }
+
+    for (const player of teamStat.team.players) {
+      const variance = priorVariance(player);
+      const newMu = player.mu + variance * meanUpdate;
+      const newSigma = Math.sqrt(
+        variance *
+          Math.max(1 - variance * varianceUpdate, MINIMUM_VARIANCE_FACTOR),
+      );
+
+      results.push({
+        id: player.id,
+        newMu,
+        newSigma,
+        displayRating: calculateTrueSkillDisplayRating(
+          { id: player.id, mu: newMu, sigma: newSigma },
+          displayRatingMultiplier,
+        ),
+      });
+    }
+  }
+
+  return results;
+};
+
+export const calculateTrueSkillTeamMatch = (
+  team1: TrueSkillTeamWithScore,
+  team2: TrueSkillTeamWithScore,
+  options: TrueSkillOptions = {},
+): TrueSkillMatchResult => {
+  return calculateTrueSkillMultiTeamMatch([team1, team2], options);
+};
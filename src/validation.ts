@@ -0,0 +1,68 @@
+import { EloErrorCode, EloValidationError } from "./errors";
+
+export const validateRating = (rating: number, playerId?: string): void => {
+  if (!Number.isFinite(rating)) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_RATING,
+      playerId === undefined
+        ? "Rating must be a finite number"
+        : `Player with id ${playerId} must have a finite rating`,
+    );
+  }
+};
+
+/** Rating deviation, volatility or sigma */
+export const validateUncertainty = (
+  value: number,
+  playerId: string,
+  name: string,
+): void => {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_RATING,
+      `Player with id ${playerId} must have a finite, non-negative ${name}`,
+    );
+  }
+};
+
+export const validateScore = (score: number): void => {
+  if (!Number.isFinite(score)) {
+    throw new EloValidationError(
+      EloErrorCode.INVALID_SCORE,
+      "Score must be a finite number",
+    );
+  }
+};
+
+export const validateUniqueIds = (ids: string[]): void => {
+  const seen = new Set<string>();
+  for (const id of ids) {
+    if (seen.has(id)) {
+      throw new EloValidationError(
+        EloErrorCode.DUPLICATE_PLAYER_ID,
+        `Player with id ${id} appears more than once`,
+      );
+    }
+    seen.add(id);
+  }
+};
+
+/** Duplicates within a team and players listed on two teams are reported separately */
+export const validateTeamRosters = (
+  teams: { players: { id: string }[] }[],
+): void => {
+  const rostered = new Set<string>();
+  for (const team of teams) {
+    const ids = team.players.map((player) => player.id);
+    validateUniqueIds(ids);
+    for (const id of ids) {
+      if (rostered.has(id)) {
+        throw new EloValidationError(
+          EloErrorCode.PLAYER_ON_MULTIPLE_TEAMS,
+          `Player with id ${id} is on more than one team`,
+        );
+      }
+    }
+    ids.forEach((id) => rostered.add(id));
+  }
+};